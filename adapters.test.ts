@@ -0,0 +1,230 @@
+/// <reference types="./fastify.d.ts" />
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+import { getTruesignExpressMiddleware } from './express';
+import { getTruesignHook, type TruesignHookConfig } from './index';
+import { getTruesignKoaMiddleware, type KoaContext } from './koa';
+import { getTruesignRequestListener } from './node-http';
+import { createTruesignToken, humanToken, mockTruesignReply, mockTruesignRequest } from './testing';
+
+const ENCRYPTION_KEY = 'f3Qk7pX9mR2tV8wY4zB6nC1dE5gH0jL3';
+
+type AdapterRequest = {
+  query?: Record<string, string | string[]>;
+  headers?: Record<string, string>;
+  /** A cookie the app set before the adapter runs */
+  setCookie?: string;
+};
+
+type ResponseHeaders = Record<string, string | string[]>;
+
+type AdapterResult = {
+  proceeded: boolean;
+  statusCode: number | null;
+  headers: ResponseHeaders;
+  body: unknown;
+  /** Where the adapter injects the token */
+  injected: Record<string, unknown>;
+};
+
+/**
+ * Sends a request through an adapter, and records what it did.
+ */
+type Adapter = (config: TruesignHookConfig, request: AdapterRequest) => Promise<AdapterResult>;
+
+function flushPromises(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Adds a value to a header like Express `res.append` and Koa `ctx.append` do.
+ */
+function appendHeader(headers: ResponseHeaders, name: string, value: string): void {
+  const current = headers[name.toLowerCase()];
+  headers[name.toLowerCase()] = current === undefined ? value : ([] as string[]).concat(current, value);
+}
+
+function presetHeaders(setCookie: string | undefined): ResponseHeaders {
+  return setCookie === undefined ? {} : { 'set-cookie': setCookie };
+}
+
+const fastify: Adapter = async (config, { query = {}, headers = {} }) => {
+  const req = mockTruesignRequest({ query, headers });
+  const reply = mockTruesignReply();
+  const next = jest.fn();
+
+  getTruesignHook(config)(req, reply, next);
+  await flushPromises();
+  return {
+    proceeded: next.mock.calls.length === 1,
+    statusCode: reply.statusCode,
+    headers: reply.headers,
+    body: reply.payload,
+    injected: req as unknown as Record<string, unknown>,
+  };
+};
+
+const express: Adapter = async (config, { query = {}, headers = {}, setCookie }) => {
+  const req = { query, headers, ip: '203.0.113.10' };
+  const result = { statusCode: null as number | null, headers: presetHeaders(setCookie), body: undefined as unknown };
+  const res = {
+    status: (statusCode: number) => {
+      result.statusCode = statusCode;
+      return res;
+    },
+    setHeader: (name: string, value: string) => {
+      result.headers[name.toLowerCase()] = value;
+    },
+    append: (name: string, value: string) => appendHeader(result.headers, name, value),
+    send: (body?: unknown) => {
+      result.body = body;
+    },
+  };
+  const next = jest.fn();
+
+  getTruesignExpressMiddleware(config)(req, res, next);
+  await flushPromises();
+  return { ...result, proceeded: next.mock.calls.length === 1, injected: req as Record<string, unknown> };
+};
+
+const koa: Adapter = async (config, { query = {}, headers = {}, setCookie }) => {
+  const result = { headers: presetHeaders(setCookie) };
+  const ctx: KoaContext = {
+    method: 'GET',
+    url: '/path',
+    query,
+    headers,
+    ip: '203.0.113.10',
+    request: {},
+    // Koa's default
+    status: 404,
+    body: undefined,
+    set: (name, value) => {
+      result.headers[name.toLowerCase()] = value;
+    },
+    append: (name, value) => appendHeader(result.headers, name, value),
+    state: {},
+  };
+  const next = jest.fn(() => Promise.resolve());
+
+  await getTruesignKoaMiddleware(config)(ctx, next);
+  const proceeded = next.mock.calls.length === 1;
+  return {
+    proceeded,
+    statusCode: proceeded ? null : ctx.status,
+    headers: result.headers,
+    body: ctx.body,
+    injected: ctx.state,
+  };
+};
+
+const nodeHttp: Adapter = async (config, { query = {}, headers = {}, setCookie }) => {
+  const search = new URLSearchParams();
+  Object.keys(query).forEach((name) => {
+    [].concat(query[name] as never).forEach((value) => search.append(name, value));
+  });
+  const req = { url: `/path?${search.toString()}`, headers, socket: { remoteAddress: '203.0.113.10' } };
+  const result = { statusCode: null as number | null, headers: presetHeaders(setCookie), body: undefined as unknown };
+  const res = {
+    set statusCode(statusCode: number) {
+      result.statusCode = statusCode;
+    },
+    setHeader: (name: string, value: string | string[]) => {
+      result.headers[name.toLowerCase()] = value;
+    },
+    getHeader: (name: string) => result.headers[name.toLowerCase()],
+    hasHeader: (name: string) => name.toLowerCase() in result.headers,
+    end: (body?: string) => {
+      result.body = result.headers['content-type'] ? JSON.parse(body as string) : body;
+    },
+  };
+  const listener = jest.fn();
+
+  getTruesignRequestListener(config, listener)(req as unknown as IncomingMessage, res as unknown as ServerResponse);
+  await flushPromises();
+  return { ...result, proceeded: listener.mock.calls.length === 1, injected: req as Record<string, unknown> };
+};
+
+describe.each([
+  ['Fastify', fastify],
+  ['Express', express],
+  ['Koa', koa],
+  ['node:http', nodeHttp],
+])('%s adapter', (_name, send) => {
+  const token = createTruesignToken(ENCRYPTION_KEY, humanToken({ country: 'ES' }));
+
+  test('Letting through a valid token and injecting it', async () => {
+    const fromQuery = await send({ encryptionKey: ENCRYPTION_KEY }, { query: { 'ts-token': token } });
+    expect(fromQuery.proceeded).toBe(true);
+    expect(fromQuery.injected['ts-token']).toMatchObject({ country: 'ES' });
+    expect(fromQuery.injected['ts-token-info']).toEqual({ keyId: null, emailTypo: null, risk: null, bypass: null, session: null, rejection: null });
+
+    const fromHeader = await send({ encryptionKey: ENCRYPTION_KEY }, { headers: { 'x-ts-token': token } });
+    expect(fromHeader.proceeded).toBe(true);
+  });
+
+  test('Replying 401 when the token is missing', async () => {
+    const result = await send({ encryptionKey: ENCRYPTION_KEY }, {});
+
+    expect(result.proceeded).toBe(false);
+    expect(result.statusCode).toBe(401);
+    expect(result.injected['ts-token']).toBeUndefined();
+  });
+
+  test('Sending the response of `onReject`', async () => {
+    const result = await send({
+      encryptionKey: ENCRYPTION_KEY,
+      shouldAcceptToken: async (decryptedToken) => decryptedToken.country !== 'ES',
+      onReject: (rejection, _req, reply) => {
+        reply.code(403).header('X-Truesign-Reason', rejection.reason).send({ reason: rejection.reason });
+      },
+    }, { query: { 'ts-token': token } });
+
+    expect(result.proceeded).toBe(false);
+    expect(result.statusCode).toBe(403);
+    expect(result.headers['x-truesign-reason']).toBe('policy_rejected:shouldAcceptToken');
+    expect(result.body).toEqual({ reason: 'policy_rejected:shouldAcceptToken' });
+  });
+
+  test('Letting rejected requests through in `report` mode', async () => {
+    const spyConsoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => { });
+    const result = await send({ encryptionKey: ENCRYPTION_KEY, mode: 'report' }, { query: { 'ts-token': 'jarl' } });
+
+    expect(result.proceeded).toBe(true);
+    expect(result.injected['ts-token']).toBeNull();
+    expect(result.injected['ts-token-info']).toMatchObject({ rejection: { reason: 'decrypt_failed' } });
+    spyConsoleWarn.mockRestore();
+  });
+
+  test('Letting everything through without injecting in `off` mode', async () => {
+    const result = await send({ mode: 'off' }, {});
+
+    expect(result.proceeded).toBe(true);
+    expect(result.injected['ts-token']).toBeUndefined();
+  });
+
+  test('Ignoring duplicated query params', async () => {
+    const result = await send({ encryptionKey: ENCRYPTION_KEY }, { query: { 'ts-token': [token, token] } });
+
+    expect(result.statusCode).toBe(401);
+  });
+});
+
+describe.each([
+  ['Express', express],
+  ['Koa', koa],
+  ['node:http', nodeHttp],
+])('%s adapter with `session`', (_name, send) => {
+  test('Keeping the cookies the app set before the session cookie', async () => {
+    const token = createTruesignToken(ENCRYPTION_KEY, humanToken());
+    const session = { secrets: ['a-session-secret-of-at-least-32-bytes'] };
+    const result = await send(
+      { encryptionKey: ENCRYPTION_KEY, session },
+      { query: { 'ts-token': token }, setCookie: 'theme=dark' }
+    );
+
+    expect(result.proceeded).toBe(true);
+    expect(result.headers['set-cookie']).toEqual(['theme=dark', expect.stringMatching(/^ts-session=/)]);
+  });
+});
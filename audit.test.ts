@@ -0,0 +1,141 @@
+/// <reference types="./fastify.d.ts" />
+
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { createJsonLinesAuditSink, getAuditRecorder, type TruesignAuditRecord } from './audit';
+import { disposableEmailToken } from './testing';
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+describe('`getAuditRecorder`', () => {
+  const token = disposableEmailToken({ requestId: 42, clusterId: 7, meta: 'user-1' });
+  const info = { keyId: null, emailTypo: null, risk: null, bypass: null, session: null, rejection: null };
+  const req = { query: {}, headers: {}, ip: '203.0.113.10', method: 'POST', url: '/signup?ts-token=jarl' };
+
+  test('Recording the decision and hashing personal data by default', () => {
+    const write = jest.fn();
+
+    getAuditRecorder({ sink: { write } }, () => 1700000000000)(req, { outcome: 'accepted', reason: null, token, info });
+
+    expect(write).toBeCalledWith({
+      timestamp: '2023-11-14T22:13:20.000Z',
+      method: 'POST',
+      route: '/signup',
+      outcome: 'accepted',
+      reason: null,
+      keyId: null,
+      requestId: 42,
+      clusterId: 7,
+      bot: 0,
+      anonymizer: 0,
+      country: 'US',
+      risk: null,
+      bypass: null,
+      email: sha256('jane@mailinator.com'),
+      ip: sha256('203.0.113.10'),
+      meta: sha256('user-1'),
+    });
+  });
+
+  test('Keeping, dropping or hashing each field with a secret', () => {
+    const write = jest.fn();
+    const record = getAuditRecorder({
+      sink: { write },
+      redact: { email: 'drop', ip: 'keep' },
+      hashSecret: 'pepper',
+    });
+
+    record({ ...req, routerPath: '/:form' }, { outcome: 'rejected', reason: 'token_replayed', token, info });
+
+    const written: TruesignAuditRecord = write.mock.calls[0][0];
+    expect(written.route).toBe('/:form');
+    expect(written).not.toHaveProperty('email');
+    expect(written.ip).toBe('203.0.113.10');
+    expect(written.meta).toBe(crypto.createHmac('sha256', 'pepper').update('user-1').digest('hex'));
+  });
+
+  test('Recording rejections without a token', () => {
+    const write = jest.fn();
+
+    getAuditRecorder({ sink: { write } })(req, { outcome: 'rejected', reason: 'missing_token', token: null, info: null });
+
+    expect(write.mock.calls[0][0]).toMatchObject({ reason: 'missing_token', requestId: null, bot: null, risk: null });
+  });
+
+  test('Not allowing invalid sinks nor redactions', () => {
+    expect(() => getAuditRecorder({ sink: {} as never })).toThrow('`audit.sink` must have a `write` method');
+    expect(() => getAuditRecorder({ sink: { write: jest.fn() }, redact: { ip: 'mask' as never } }))
+      .toThrow('`audit.redact.ip` must be `keep`, `hash` or `drop`');
+  });
+});
+
+describe('`createJsonLinesAuditSink`', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'truesign-audit-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  function readLines(file: string): unknown[] {
+    return fs.readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+  }
+
+  const record = (requestId: number) => ({ requestId } as TruesignAuditRecord);
+
+  test('Buffering records until `flush`, or the buffer is full', async () => {
+    const file = path.join(directory, 'audit.log');
+    const sink = createJsonLinesAuditSink({ path: file, maxBufferedRecords: 3 });
+
+    sink.write(record(1));
+    sink.write(record(2));
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(fs.existsSync(file)).toBe(false);
+
+    sink.write(record(3));
+    sink.write(record(4));
+    await sink.close();
+    expect(readLines(file)).toEqual([record(1), record(2), record(3), record(4)]);
+  });
+
+  test('Flushing after `flushIntervalMs`', async () => {
+    const file = path.join(directory, 'audit.log');
+    const sink = createJsonLinesAuditSink({ path: file, flushIntervalMs: 5 });
+
+    sink.write(record(1));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await sink.flush();
+    expect(readLines(file)).toEqual([record(1)]);
+  });
+
+  test('Rotating files and deleting the oldest ones', async () => {
+    const file = path.join(directory, 'audit.log');
+    // Each record takes 16 bytes, so every file fits two
+    const sink = createJsonLinesAuditSink({ path: file, maxBufferedRecords: 1, maxFileBytes: 32, maxFiles: 2 });
+
+    [1, 2, 3, 4, 5, 6, 7].forEach((requestId) => sink.write(record(requestId)));
+    await sink.close();
+
+    expect(fs.readdirSync(directory).sort()).toEqual(['audit.log', 'audit.log.1', 'audit.log.2']);
+    expect(readLines(file)).toEqual([record(7)]);
+    expect(readLines(`${file}.1`)).toEqual([record(5), record(6)]);
+    expect(readLines(`${file}.2`)).toEqual([record(3), record(4)]);
+  });
+
+  test('Reporting write errors', async () => {
+    const onError = jest.fn();
+    const sink = createJsonLinesAuditSink({ path: path.join(directory, 'missing', 'audit.log'), onError });
+
+    sink.write(record(1));
+    await sink.close();
+    expect(onError).toBeCalledWith(expect.objectContaining({ code: 'ENOENT' }));
+  });
+});
@@ -0,0 +1,322 @@
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+
+import type { DecryptedToken, TruesignRequestInfo, TruesignRequestInput } from './index';
+import { getTokenIp } from './ip-binding';
+import { consoleLogger } from './logging';
+import type { TruesignRejectionReason } from './rejection';
+import type { RiskAssessment } from './risk';
+
+/**
+ * - `accepted`: the request went on with a valid token
+ * - `rejected`: the request was rejected
+ * - `reported`: the request would have been rejected, but went on in `report` mode
+ * - `bypassed`: the request went on without its token being checked, let through by the `bypass` rule in
+ *   {@link TruesignAuditRecord.bypass}
+ */
+export type TruesignAuditOutcome = 'accepted' | 'rejected' | 'reported' | 'bypassed';
+
+/**
+ * A decision of the hook, as written to the audit sink. Token fields are `null` when the token couldn't be decrypted,
+ * and only `requestId` is for requests accepted on a session cookie.
+ *
+ * `email`, `ip` and `meta` are redacted as configured in {@link TruesignAuditConfig.redact}, and left out when dropped.
+ */
+export type TruesignAuditRecord = {
+  /** Time of the decision, as an ISO 8601 string */
+  timestamp: string;
+  method: string | null;
+  /** The route pattern when the framework knows it, otherwise the path without the query string */
+  route: string | null;
+  outcome: TruesignAuditOutcome;
+  reason: TruesignRejectionReason | null;
+  keyId: string | null;
+  requestId: number | null;
+  clusterId: number | null;
+  bot: number | null;
+  anonymizer: number | null;
+  country: string | null;
+  risk: RiskAssessment | null;
+  bypass: string | null;
+  email?: string;
+  ip?: string;
+  meta?: string;
+};
+
+/**
+ * Where audit records are written, e.g. a file, a queue or a database.
+ */
+export type TruesignAuditSink = {
+  /**
+   * Called once per decision. It must not block the request: slow sinks should buffer records and write them in the
+   * background. Errors are logged and ignored.
+   */
+  write: (record: TruesignAuditRecord) => void;
+  /**
+   * Writes any buffered record. Called when the Fastify server closes.
+   */
+  close?: () => Promise<void>;
+};
+
+/**
+ * - `keep`: the value is written as is
+ * - `hash`: the value is replaced by its SHA-256 hash (an HMAC with `hashSecret`), so records of the same visitor can
+ *   still be linked
+ * - `drop`: the field is left out
+ */
+export type AuditRedaction = 'keep' | 'hash' | 'drop';
+
+export type TruesignAuditConfig = {
+  sink: TruesignAuditSink;
+  /**
+   * How personal data is written. `ip` applies to both `ipv4` and `ipv6`.
+   *
+   * @default { email: 'hash', ip: 'hash', meta: 'hash' }
+   */
+  redact?: {
+    email?: AuditRedaction;
+    ip?: AuditRedaction;
+    meta?: AuditRedaction;
+  };
+  /**
+   * Secret of the HMAC used to hash. Without it, hashes of emails and IPs can be reversed by hashing every candidate,
+   * so set it unless the audit log is as protected as the raw data.
+   *
+   * @default undefined (plain SHA-256)
+   */
+  hashSecret?: string;
+};
+
+/**
+ * The decision being recorded.
+ */
+export type AuditDecision = {
+  outcome: TruesignAuditOutcome;
+  reason: TruesignRejectionReason | null;
+  token: DecryptedToken | null;
+  info: TruesignRequestInfo | null;
+};
+
+const AUDIT_REDACTIONS: AuditRedaction[] = ['keep', 'hash', 'drop'];
+
+/**
+ * Builds the function used by the hook to write its decisions to the audit sink.
+ *
+ * @param config TruesignAuditConfig
+ * @param now Clock of the record timestamps, as Unix epoch with millisecond resolution
+ * @returns A function that builds the record of a decision and writes it
+ * @throws Error if the sink or a redaction are not valid
+ */
+export function getAuditRecorder(
+  config: TruesignAuditConfig,
+  now: () => number = Date.now,
+): (req: TruesignRequestInput, decision: AuditDecision) => void {
+  const { sink, hashSecret } = config;
+  if (!sink || typeof sink.write !== 'function') {
+    throw new Error('`audit.sink` must have a `write` method');
+  }
+
+  const { email = 'hash', ip = 'hash', meta = 'hash' } = config.redact ?? {};
+  const redactions: Record<'email' | 'ip' | 'meta', AuditRedaction> = { email, ip, meta };
+  Object.keys(redactions).forEach((field) => {
+    if (AUDIT_REDACTIONS.indexOf(redactions[field as keyof typeof redactions]) === -1) {
+      throw new Error(`\`audit.redact.${field}\` must be \`keep\`, \`hash\` or \`drop\``);
+    }
+  });
+
+  const hash = (value: string): string => (hashSecret
+    ? crypto.createHmac('sha256', hashSecret).update(value, 'utf8').digest('hex')
+    : crypto.createHash('sha256').update(value, 'utf8').digest('hex'));
+
+  const redact = (record: TruesignAuditRecord, field: keyof typeof redactions, value: string | undefined): void => {
+    if (typeof value !== 'string' || redactions[field] === 'drop') {
+      return;
+    }
+    record[field] = redactions[field] === 'hash' ? hash(value) : value;
+  };
+
+  return (req, { outcome, reason, token, info }) => {
+    const path = typeof req.url === 'string' ? req.url.split('?')[0] : null;
+    // Requests accepted on a session cookie have no token, but the cookie carries its verdict
+    const verdict = token ?? (info ? info.session : null);
+    const record: TruesignAuditRecord = {
+      timestamp: new Date(now()).toISOString(),
+      method: req.method ?? null,
+      route: req.routerPath ?? path,
+      outcome,
+      reason,
+      keyId: info ? info.keyId : null,
+      requestId: token ? token.requestId : null,
+      clusterId: verdict ? verdict.clusterId : null,
+      bot: verdict ? verdict.bot : null,
+      anonymizer: verdict ? verdict.anonymizer : null,
+      country: verdict ? verdict.country : null,
+      risk: info ? info.risk : null,
+      bypass: info ? info.bypass : null,
+    };
+    if (token) {
+      redact(record, 'email', token.email);
+      redact(record, 'ip', getTokenIp(token));
+      redact(record, 'meta', token.meta);
+    }
+
+    sink.write(record);
+  };
+}
+
+export type JsonLinesAuditSinkOptions = {
+  /**
+   * File the records are appended to. Rotated files get a numeric suffix: `audit.log.1` is the most recent.
+   */
+  path: string;
+  /**
+   * Records kept in memory before being written.
+   *
+   * @default 100
+   */
+  maxBufferedRecords?: number;
+  /**
+   * Maximum time a record is kept in memory before being written, in milliseconds.
+   *
+   * @default 1000
+   */
+  flushIntervalMs?: number;
+  /**
+   * Size at which the file is rotated, in bytes.
+   *
+   * @default 10485760 (10 MiB)
+   */
+  maxFileBytes?: number;
+  /**
+   * Rotated files kept besides the current one. Older ones are deleted.
+   *
+   * @default 5
+   */
+  maxFiles?: number;
+  /**
+   * Called when writing fails. The records being written are lost.
+   *
+   * @default Logs with `console.error`
+   */
+  onError?: (error: unknown) => void;
+};
+
+/**
+ * A {@link TruesignAuditSink} that also writes its buffer on demand.
+ */
+export type JsonLinesAuditSink = TruesignAuditSink & {
+  flush: () => Promise<void>;
+  close: () => Promise<void>;
+};
+
+const DEFAULT_MAX_BUFFERED_RECORDS = 100;
+const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+function getFileSize(path: string): Promise<number> {
+  return fs.promises.stat(path).then((stats) => stats.size, () => 0);
+}
+
+function rotateFiles(path: string, maxFiles: number): Promise<void> {
+  const renameFrom = (index: number): Promise<void> => {
+    if (index === 0) {
+      return fs.promises.rename(path, `${path}.1`).catch(() => undefined);
+    }
+    return fs.promises.rename(`${path}.${index}`, `${path}.${index + 1}`)
+      .catch(() => undefined)
+      .then(() => renameFrom(index - 1));
+  };
+
+  return fs.promises.unlink(`${path}.${maxFiles}`)
+    .catch(() => undefined)
+    .then(() => renameFrom(maxFiles - 1));
+}
+
+/**
+ * Creates a {@link TruesignAuditSink} that appends records to a file, one JSON object per line.
+ *
+ * Records are buffered and written in the background, so the file can be a few records behind. Call `close` before
+ * exiting, which the plugin (or `truesignHook.onClose`) does when the Fastify server closes.
+ *
+ * @param options JsonLinesAuditSinkOptions
+ * @returns JsonLinesAuditSink
+ * @throws Error if the options are not valid
+ */
+export function createJsonLinesAuditSink(options: JsonLinesAuditSinkOptions): JsonLinesAuditSink {
+  const {
+    path,
+    maxBufferedRecords = DEFAULT_MAX_BUFFERED_RECORDS,
+    flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS,
+    maxFileBytes = DEFAULT_MAX_FILE_BYTES,
+    maxFiles = DEFAULT_MAX_FILES,
+    onError = (error: unknown) => consoleLogger.error({ err: error }, 'Error writing Truesign audit records'),
+  } = options;
+
+  if (!path) {
+    throw new Error('`path` is required');
+  }
+  if (!(maxBufferedRecords >= 1) || !(flushIntervalMs > 0) || !(maxFileBytes > 0)) {
+    throw new Error('`maxBufferedRecords`, `flushIntervalMs` and `maxFileBytes` must be positive numbers');
+  }
+  if (!(maxFiles >= 0) || Math.floor(maxFiles) !== maxFiles) {
+    throw new Error('`maxFiles` must be a non-negative integer');
+  }
+
+  let buffer: string[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Writes are chained so that rotations and appends never overlap
+  let writing: Promise<void> = Promise.resolve();
+  let fileSize: number | null = null;
+
+  const writeLines = (lines: string[]): Promise<void> => {
+    const chunk = lines.join('');
+    const chunkSize = Buffer.byteLength(chunk);
+
+    return (fileSize === null ? getFileSize(path) : Promise.resolve(fileSize))
+      .then((size) => {
+        if (size === 0 || size + chunkSize <= maxFileBytes) {
+          return size;
+        }
+        return (maxFiles === 0 ? fs.promises.unlink(path) : rotateFiles(path, maxFiles)).then(() => 0);
+      })
+      .then((size) => fs.promises.appendFile(path, chunk).then(() => {
+        fileSize = size + chunkSize;
+      }))
+      .catch((error) => {
+        // The size is read again, since it's unknown how much was written
+        fileSize = null;
+        onError(error);
+      });
+  };
+
+  const flush = (): Promise<void> => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (buffer.length) {
+      const lines = buffer;
+      buffer = [];
+      writing = writing.then(() => writeLines(lines));
+    }
+    return writing;
+  };
+
+  return {
+    write: (record) => {
+      buffer.push(`${JSON.stringify(record)}\n`);
+      if (buffer.length >= maxBufferedRecords) {
+        flush();
+      } else if (timer === null) {
+        timer = setTimeout(flush, flushIntervalMs);
+        // A pending flush doesn't keep the process alive
+        if (typeof timer.unref === 'function') {
+          timer.unref();
+        }
+      }
+    },
+    flush,
+    close: flush,
+  };
+}
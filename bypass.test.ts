@@ -0,0 +1,79 @@
+/// <reference types="./fastify.d.ts" />
+
+import { getBypassMatcher } from './bypass';
+
+function makeRequest(request: { method?: string; url?: string; ip?: string; headers?: Record<string, string> }) {
+  return { query: {}, headers: {}, method: 'GET', url: '/', ...request } as unknown as FastifyRequest;
+}
+
+describe('`getBypassMatcher`', () => {
+  test('Matching on URLs, IPs and methods', () => {
+    const match = getBypassMatcher([
+      { name: 'health', urls: ['/health', /^\/ready$/], methods: ['get', 'HEAD'] },
+      { name: 'internal', urls: ['/internal/*'], ips: ['10.0.0.0/8'] },
+    ]);
+
+    expect(match(makeRequest({ url: '/health?probe=1' }))).toEqual({ rule: 'health', errors: [] });
+    expect(match(makeRequest({ url: '/ready', method: 'HEAD' }))).toEqual({ rule: 'health', errors: [] });
+    expect(match(makeRequest({ url: '/health', method: 'POST' }))).toEqual({ rule: null, errors: [] });
+    expect(match(makeRequest({ url: '/healthz' }))).toEqual({ rule: null, errors: [] });
+    expect(match(makeRequest({ url: '/internal/jobs/1', ip: '10.1.2.3' }))).toEqual({ rule: 'internal', errors: [] });
+    expect(match(makeRequest({ url: '/internal/jobs/1', ip: '203.0.113.10' }))).toEqual({ rule: null, errors: [] });
+    expect(match(makeRequest({ url: '/internal/jobs/1' }))).toEqual({ rule: null, errors: [] });
+  });
+
+  test('Returning the first rule that matches', () => {
+    const match = getBypassMatcher([{ name: 'office', ips: ['198.51.100.7'] }, { name: 'anything', urls: ['*'] }]);
+
+    expect(match(makeRequest({ ip: '198.51.100.7' }))).toEqual({ rule: 'office', errors: [] });
+    expect(match(makeRequest({ ip: '203.0.113.10' }))).toEqual({ rule: 'anything', errors: [] });
+  });
+
+  test('Resolving the client IP like `ipBinding`', () => {
+    const match = getBypassMatcher([{ name: 'internal', ips: ['10.0.0.0/8'] }], { trustedProxies: ['192.0.2.1'] });
+
+    expect(match(makeRequest({ ip: '192.0.2.1', headers: { 'x-forwarded-for': '10.1.2.3' } })))
+      .toEqual({ rule: 'internal', errors: [] });
+    expect(match(makeRequest({ ip: '203.0.113.10', headers: { 'x-forwarded-for': '10.1.2.3' } })))
+      .toEqual({ rule: null, errors: [] });
+  });
+
+  test('Running `when` predicates, sync or async, after the other conditions', async () => {
+    const when = jest.fn((req: FastifyRequest) => Promise.resolve(req.headers['x-api-key'] === 'secret'));
+    const match = getBypassMatcher([{ name: 'partners', urls: ['/api/*'], when }]);
+
+    await expect(match(makeRequest({ url: '/api/orders', headers: { 'x-api-key': 'secret' } })))
+      .resolves.toEqual({ rule: 'partners', errors: [] });
+    await expect(match(makeRequest({ url: '/api/orders', headers: { 'x-api-key': 'wrong' } })))
+      .resolves.toEqual({ rule: null, errors: [] });
+    expect(match(makeRequest({ url: '/signup', headers: { 'x-api-key': 'secret' } })))
+      .toEqual({ rule: null, errors: [] });
+    expect(when).toBeCalledTimes(2);
+  });
+
+  test('Not matching rules whose `when` throws', async () => {
+    const error = new Error('Key store unavailable');
+    const match = getBypassMatcher([
+      { name: 'sync', when: () => { throw error; } },
+      { name: 'async', when: () => Promise.reject(error) },
+    ]);
+
+    await expect(match(makeRequest({}))).resolves.toEqual({
+      rule: null,
+      errors: [{ rule: 'sync', error }, { rule: 'async', error }],
+    });
+  });
+
+  test('Not allowing invalid rules', () => {
+    expect(() => getBypassMatcher({} as never)).toThrow('`bypass` must be an array of rules');
+    expect(() => getBypassMatcher([{ name: '', urls: ['/health'] }]))
+      .toThrow('Every rule in `bypass` must have a `name`');
+    expect(() => getBypassMatcher([{ name: 'a', urls: ['/a'] }, { name: 'a', urls: ['/b'] }]))
+      .toThrow('Duplicated rule name in `bypass`: a');
+    expect(() => getBypassMatcher([{ name: 'gets', methods: ['GET'] }]))
+      .toThrow('Rule `gets` in `bypass` must set `urls`, `ips` or `when`');
+    expect(() => getBypassMatcher([{ name: 'a', when: true as never }]))
+      .toThrow('`when` of rule `a` in `bypass` must be a function');
+    expect(() => getBypassMatcher([{ name: 'a', ips: ['10.0.0.0/33'] }])).toThrow('Invalid IP or CIDR: 10.0.0.0/33');
+  });
+});
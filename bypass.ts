@@ -0,0 +1,152 @@
+import type { TruesignRequestInput } from './index';
+import { getCidrMatcher, getClientIpResolver, type IpBindingConfig } from './ip-binding';
+import { chain, isPromiseLike, type MaybePromise } from './maybe-promise';
+
+/**
+ * A rule that lets trusted clients through without a token, e.g. internal services, uptime probes or API-key clients.
+ *
+ * A rule matches when every condition it sets does, so `ips` and `urls` can be combined to only bypass health checks
+ * from the load balancer.
+ */
+export type TruesignBypassRule = {
+  /**
+   * Identifies the rule in the request info, logs and audit records. It must be unique.
+   */
+  name: string;
+  /**
+   * Paths matched against the URL without its query string. Strings match the whole path and `*` matches any
+   * characters, e.g. `/internal/*`. Regular expressions are tested as is.
+   */
+  urls?: Array<string | RegExp>;
+  /**
+   * IPs or CIDRs of the client, resolved like {@link IpBindingConfig} when `ipBinding` is set, or `req.ip` otherwise.
+   */
+  ips?: string[];
+  /**
+   * Methods the rule is limited to (case-insensitive). It narrows the other conditions, so it can't be used alone.
+   *
+   * @default undefined (any method)
+   */
+  methods?: string[];
+  /**
+   * Custom condition, e.g. a valid API key header. It can be async. When it throws, the rule doesn't match.
+   */
+  when?: (req: TruesignRequestInput) => MaybePromise<boolean>;
+};
+
+/**
+ * Name of the rule that matched a request, or `null`, and the errors thrown by the `when` predicates tried.
+ */
+export type BypassMatch = {
+  rule: string | null;
+  errors: Array<{ rule: string; error: unknown }>;
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toUrlMatcher(pattern: string | RegExp): (path: string) => boolean {
+  if (pattern instanceof RegExp) {
+    return (path) => pattern.test(path);
+  }
+  const regExp = new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`);
+  return (path) => regExp.test(path);
+}
+
+/**
+ * Builds the function used by the hook to find the first {@link TruesignBypassRule} that matches a request.
+ *
+ * @param rules The rules, in order
+ * @param ipBinding Config used to resolve the client IP, if set
+ * @returns A function that returns the match, sync unless a `when` predicate is async
+ * @throws Error if a rule is not valid
+ */
+export function getBypassMatcher(
+  rules: TruesignBypassRule[],
+  ipBinding?: IpBindingConfig,
+): (req: TruesignRequestInput) => MaybePromise<BypassMatch> {
+  if (!Array.isArray(rules)) {
+    throw new Error('`bypass` must be an array of rules');
+  }
+
+  const names: string[] = [];
+  const getClientIp = getClientIpResolver(ipBinding ?? {});
+  const matchers = rules.map((rule) => {
+    const { name, urls, ips, methods, when } = rule;
+    if (typeof name !== 'string' || !name) {
+      throw new Error('Every rule in `bypass` must have a `name`');
+    }
+    if (names.indexOf(name) !== -1) {
+      throw new Error(`Duplicated rule name in \`bypass\`: ${name}`);
+    }
+    if (urls === undefined && ips === undefined && when === undefined) {
+      throw new Error(`Rule \`${name}\` in \`bypass\` must set \`urls\`, \`ips\` or \`when\``);
+    }
+    if (when !== undefined && typeof when !== 'function') {
+      throw new Error(`\`when\` of rule \`${name}\` in \`bypass\` must be a function`);
+    }
+    names.push(name);
+
+    const urlMatchers = urls === undefined ? null : urls.map(toUrlMatcher);
+    const isAllowedIp = ips === undefined ? null : getCidrMatcher(ips);
+    const allowedMethods = methods === undefined ? null : methods.map((method) => method.toUpperCase());
+
+    // The static conditions are checked first, so `when` only runs for the requests they let through
+    const matchesStatic = (req: TruesignRequestInput): boolean => {
+      if (allowedMethods !== null && allowedMethods.indexOf((req.method ?? '').toUpperCase()) === -1) {
+        return false;
+      }
+      if (urlMatchers !== null) {
+        const path = typeof req.url === 'string' ? req.url.split('?')[0] : null;
+        if (path === null || !urlMatchers.some((matches) => matches(path))) {
+          return false;
+        }
+      }
+      if (isAllowedIp !== null) {
+        const ip = getClientIp(req);
+        if (!ip || !isAllowedIp(ip)) {
+          return false;
+        }
+      }
+      return true;
+    };
+
+    return { name, matchesStatic, when };
+  });
+
+  return (req) => {
+    const errors: BypassMatch['errors'] = [];
+
+    const tryRule = (index: number): MaybePromise<BypassMatch> => {
+      if (index >= matchers.length) {
+        return { rule: null, errors };
+      }
+
+      const { name, matchesStatic, when } = matchers[index];
+      if (!matchesStatic(req)) {
+        return tryRule(index + 1);
+      }
+      if (when === undefined) {
+        return { rule: name, errors };
+      }
+
+      const onError = (error: unknown): boolean => {
+        errors.push({ rule: name, error });
+        return false;
+      };
+      let matches: MaybePromise<boolean>;
+      try {
+        matches = when(req);
+        if (isPromiseLike(matches)) {
+          matches = matches.then(undefined, onError);
+        }
+      } catch (error) {
+        matches = onError(error);
+      }
+      return chain(matches, (matched) => (matched === true ? { rule: name, errors } : tryRule(index + 1)));
+    };
+
+    return tryRule(0);
+  };
+}
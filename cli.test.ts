@@ -0,0 +1,130 @@
+/// <reference types="./fastify.d.ts" />
+
+import { runTruesignTokenCli, type TruesignCliIo } from './cli';
+import { createTruesignToken, humanToken, vpnToken } from './testing';
+
+const ENCRYPTION_KEY = 'f3Qk7pX9mR2tV8wY4zB6nC1dE5gH0jL3';
+
+function makeIo(files: Record<string, string> = {}): TruesignCliIo & { out: string; err: string } {
+  const io = {
+    out: '',
+    err: '',
+    env: { TRUESIGN_KEY: ENCRYPTION_KEY },
+    stdout: (text: string) => {
+      io.out += text;
+    },
+    stderr: (text: string) => {
+      io.err += text;
+    },
+    readFile: (path: string) => {
+      if (!(path in files)) {
+        throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+      }
+      return files[path];
+    },
+    now: () => 1700000030000,
+  };
+  return io;
+}
+
+describe('`decode`', () => {
+  const token = createTruesignToken(ENCRYPTION_KEY, humanToken({ requestId: 42, timestamp: 1700000000000 }));
+
+  test('Explaining every field', () => {
+    const io = makeIo();
+
+    expect(runTruesignTokenCli(['decode', token], io)).toBe(0);
+    expect(io.out).toContain('bot         0               definitely a human\n');
+    expect(io.out).toContain('created 2023-11-14T22:13:20.000Z (30s ago)');
+  });
+
+  test('Printing JSON', () => {
+    const io = makeIo();
+
+    expect(runTruesignTokenCli(['decode', token, '--json'], io)).toBe(0);
+    expect(JSON.parse(io.out)).toMatchObject({
+      ok: true,
+      token: { requestId: 42, country: 'US' },
+      explanations: { clusterId: 'not part of a distributed attack' },
+    });
+  });
+
+  test('Reading the key from another variable or a file', () => {
+    const io = makeIo({ 'key.txt': `${ENCRYPTION_KEY}\n` });
+    io.env = { OTHER_KEY: ENCRYPTION_KEY };
+
+    expect(runTruesignTokenCli(['decode', token, '--key-env', 'OTHER_KEY'], io)).toBe(0);
+    expect(runTruesignTokenCli(['decode', token, '--key-file', 'key.txt'], io)).toBe(0);
+    expect(runTruesignTokenCli(['decode', token], io)).toBe(2);
+    expect(io.err).toContain('The encryption key must be set in `TRUESIGN_KEY`, or passed with `--key-file`');
+  });
+
+  test('Decoding hex and base64 keys with `--key-encoding`', () => {
+    const io = makeIo();
+    io.env = { HEX_KEY: Buffer.from(ENCRYPTION_KEY).toString('hex') };
+
+    expect(runTruesignTokenCli(['decode', token, '--key-env', 'HEX_KEY', '--key-encoding', 'hex'], io)).toBe(0);
+    expect(runTruesignTokenCli(['decode', token, '--key-env', 'HEX_KEY'], io)).toBe(2);
+    expect(io.err).toContain('`encryptionKey` must be 32 bytes long, got 64');
+  });
+
+  test('Exiting with 1 when the token can\'t be decrypted', () => {
+    const io = makeIo();
+
+    expect(runTruesignTokenCli(['decode', 'jarl', '--json'], io)).toBe(1);
+    expect(JSON.parse(io.out)).toEqual({ ok: false, reason: 'decrypt_failed', detail: 'Token is shorter than the IV' });
+  });
+});
+
+describe('`check`', () => {
+  const token = createTruesignToken(ENCRYPTION_KEY, vpnToken({ country: 'ES' }));
+  const files = { 'policy.json': JSON.stringify({ maxAnonymizer: 7, countries: { allow: ['ES'] } }) };
+
+  test('Reporting every rule', () => {
+    const io = makeIo(files);
+
+    expect(runTruesignTokenCli(['check', token, '--policy', 'policy.json'], io)).toBe(1);
+    expect(io.out).toBe('FAIL  maxAnonymizer\nPASS  countries\nToken rejected\n');
+  });
+
+  test('Exiting with 0 when every rule passes', () => {
+    const io = makeIo({ 'policy.json': JSON.stringify({ countries: { allow: ['ES'] } }) });
+
+    expect(runTruesignTokenCli(['check', token, '--policy', 'policy.json', '--json'], io)).toBe(0);
+    expect(JSON.parse(io.out)).toEqual({ ok: true, rules: [{ rule: 'countries', passed: true }] });
+  });
+
+  test('Not allowing unknown rules nor missing files', () => {
+    const io = makeIo({ 'policy.json': JSON.stringify({ maxBots: 0 }) });
+
+    expect(runTruesignTokenCli(['check', token, '--policy', 'policy.json'], io)).toBe(2);
+    expect(io.err).toContain('Unknown policy rules: maxBots');
+    expect(runTruesignTokenCli(['check', token, '--policy', 'missing.json', '--json'], io)).toBe(2);
+    expect(JSON.parse(io.out).error).toContain('ENOENT');
+  });
+});
+
+describe('`forge`', () => {
+  test('Creating a token that `decode` can read', () => {
+    const forgeIo = makeIo();
+    expect(runTruesignTokenCli(['forge', '--preset', 'bot', '--payload', '{"country":"ES"}', '--json'], forgeIo))
+      .toBe(0);
+    const { token, payload } = JSON.parse(forgeIo.out);
+    expect(payload).toMatchObject({ bot: 9, country: 'ES' });
+
+    const decodeIo = makeIo();
+    expect(runTruesignTokenCli(['decode', token, '--json'], decodeIo)).toBe(0);
+    expect(JSON.parse(decodeIo.out).token).toEqual(payload);
+  });
+
+  test('Exiting with 2 on invalid arguments', () => {
+    const io = makeIo();
+
+    expect(runTruesignTokenCli(['forge', '--preset', 'alien'], io)).toBe(2);
+    expect(runTruesignTokenCli(['forge', '--payload', '[]'], io)).toBe(2);
+    expect(runTruesignTokenCli(['forge', '--key-env', 'SHORT_KEY'], { ...io, env: { SHORT_KEY: 'jarl' } })).toBe(2);
+    expect(runTruesignTokenCli(['unknown'], io)).toBe(2);
+    expect(runTruesignTokenCli(['decode', '--verbose'], io)).toBe(2);
+    expect(io.err).toContain('Unknown option `--verbose`');
+  });
+});
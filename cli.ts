@@ -0,0 +1,341 @@
+#!/usr/bin/env node
+import * as fs from 'node:fs';
+
+import {
+  createTruesignPolicy,
+  type DecryptedToken,
+  decryptTruesignTokenDetailed,
+  type EncryptionKeyEncoding,
+  parseEncryptionKey,
+  type TruesignPolicyOptions,
+} from './index';
+import { botToken, createTruesignToken, disposableEmailToken, humanToken, vpnToken } from './testing';
+import { isRecord } from './utils';
+
+/**
+ * `truesign-token` bin, to inspect the tokens of blocked users and create tokens for local testing:
+ *
+ * ```
+ * TRUESIGN_KEY=... truesign-token decode <token>
+ * truesign-token check <token> --policy policy.json --key-file key.txt
+ * truesign-token forge --preset bot --payload '{"country":"ES"}' --json
+ * ```
+ *
+ * Exit codes: `0` on success, `1` when the token can't be decrypted or fails the policy, `2` on usage errors.
+ */
+
+const USAGE = `Usage: truesign-token <command> [options]
+
+Commands:
+  decode <token>                   Decrypt a token and explain its fields
+  check <token> --policy <file>    Run a policy (JSON \`createTruesignPolicy\` options) against a token
+  forge                            Create a token for local testing
+
+Options:
+  --key-env <name>     Environment variable with the encryption key (default: TRUESIGN_KEY)
+  --key-file <path>    File with the encryption key, instead of --key-env
+  --key-encoding <enc> Encoding of the encryption key: raw, hex or base64 (default: raw)
+  --preset <preset>    forge: human, bot, vpn or disposable-email (default: human)
+  --payload <json>     forge: fields to set in the token, as JSON
+  --json               Machine-readable output
+`;
+
+const EXIT_OK = 0;
+const EXIT_REJECTED = 1;
+const EXIT_USAGE = 2;
+
+const DEFAULT_KEY_ENV = 'TRUESIGN_KEY';
+
+const FORGE_PRESETS: Record<string, (overrides: Partial<DecryptedToken>) => DecryptedToken> = {
+  human: humanToken,
+  bot: botToken,
+  vpn: vpnToken,
+  'disposable-email': disposableEmailToken,
+};
+
+const POLICY_RULES: Array<keyof TruesignPolicyOptions> = [
+  'maxBot',
+  'maxAnonymizer',
+  'rejectClusters',
+  'countries',
+  'requireEmail',
+  'rejectDisposableEmail',
+  'rejectNotDeliverableEmail',
+];
+
+const VALUE_OPTIONS = ['key-env', 'key-file', 'key-encoding', 'policy', 'preset', 'payload'];
+const FLAG_OPTIONS = ['json'];
+
+/**
+ * Where the CLI reads its inputs and writes its outputs. Replaced in tests.
+ */
+export type TruesignCliIo = {
+  env: Record<string, string | undefined>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  readFile: (path: string) => string;
+  now: () => number;
+};
+
+type ParsedArgs = {
+  command: string | undefined;
+  positionals: string[];
+  options: Record<string, string>;
+  json: boolean;
+};
+
+function parseArgs(args: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const options: Record<string, string> = {};
+  let json = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.slice(0, 2) !== '--') {
+      positionals.push(arg);
+      continue;
+    }
+
+    const name = arg.slice(2);
+    if (FLAG_OPTIONS.indexOf(name) !== -1) {
+      json = true;
+    } else if (VALUE_OPTIONS.indexOf(name) !== -1) {
+      if (i + 1 >= args.length) {
+        throw new Error(`\`--${name}\` needs a value`);
+      }
+      options[name] = args[++i];
+    } else {
+      throw new Error(`Unknown option \`${arg}\``);
+    }
+  }
+
+  return { command: positionals[0], positionals: positionals.slice(1), options, json };
+}
+
+function readKey(args: ParsedArgs, io: TruesignCliIo): string {
+  if (args.options['key-file'] !== undefined) {
+    return io.readFile(args.options['key-file']).trim();
+  }
+
+  const keyEnv = args.options['key-env'] ?? DEFAULT_KEY_ENV;
+  const key = io.env[keyEnv];
+  if (!key) {
+    throw new Error(`The encryption key must be set in \`${keyEnv}\`, or passed with \`--key-file\``);
+  }
+  return key;
+}
+
+function readToken(args: ParsedArgs): string {
+  if (args.positionals.length !== 1) {
+    throw new Error(`\`${args.command}\` needs a token`);
+  }
+  return args.positionals[0];
+}
+
+function readJson(text: string, source: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${source} is not valid JSON`);
+  }
+}
+
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+/**
+ * Decrypts the token of the command, reporting why when it can't be.
+ */
+function decryptToken(args: ParsedArgs, io: TruesignCliIo): DecryptedToken | null {
+  const key = readKey(args, io);
+  const encoding = args.options['key-encoding'] as EncryptionKeyEncoding | undefined;
+  // A wrong key is a usage error, not a token that can't be decrypted
+  parseEncryptionKey(key, encoding);
+
+  const result = decryptTruesignTokenDetailed(key, readToken(args), { encoding });
+  if (result.ok === true) {
+    return result.token;
+  }
+
+  const { reason, detail } = result.rejection;
+  if (args.json) {
+    io.stdout(JSON.stringify({ ok: false, reason, detail }) + '\n');
+  } else {
+    io.stderr(`Token rejected: ${reason}${detail ? ` (${detail})` : ''}\n`);
+  }
+  return null;
+}
+
+const SCORE_EXPLANATIONS: Record<string, Record<number, string>> = {
+  bot: {
+    0: 'definitely a human',
+    7: 'very probably a bot',
+    9: 'definitely a bot',
+  },
+  anonymizer: {
+    0: 'not using an IP anonymizer',
+    7: 'very probably using a VPN, proxy or Tor',
+    9: 'definitely using a VPN, proxy or Tor',
+  },
+};
+
+function explainField(field: string, value: unknown, now: number): string {
+  switch (field) {
+    case 'bot':
+    case 'anonymizer':
+      return SCORE_EXPLANATIONS[field][value as number] ?? 'unexpected score';
+    case 'clusterId':
+      return value === 0 ? 'not part of a distributed attack' : 'part of a distributed attack by a single actor';
+    case 'requestId':
+      return 'unique per token, used to detect replays';
+    case 'timestamp': {
+      const ageSeconds = Math.round((now - (value as number)) / 1000);
+      return `created ${new Date(value as number).toISOString()} (${ageSeconds}s ago)`;
+    }
+    case 'country':
+      return value === 'unknown' ? 'country could not be determined from the IP' : 'country of the IP';
+    case 'meta':
+      return 'the `meta` parameter sent to Truesign';
+    case 'email':
+      return 'email or domain verified by Truesign';
+    case 'disposable':
+      return value ? 'temporary email service' : 'not a temporary email service';
+    case 'notDeliverable':
+      return value ? 'the email can\'t receive mail' : 'the email can receive mail';
+    case 'typo':
+      return value ? 'suggested correction of the email domain' : 'no typo in the email domain';
+    case 'ipv4':
+    case 'ipv6':
+      return 'IP of the visitor';
+    default:
+      return 'unknown field';
+  }
+}
+
+function formatRows(rows: string[][]): string {
+  const widths = rows[0].map((_cell, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows.map((row) => row.map((cell, column) => (
+    column === row.length - 1 ? cell : cell + ' '.repeat(widths[column] - cell.length + 2)
+  )).join('')).join('\n') + '\n';
+}
+
+function decode(args: ParsedArgs, io: TruesignCliIo): number {
+  const decryptedToken = decryptToken(args, io);
+  if (decryptedToken === null) {
+    return EXIT_REJECTED;
+  }
+
+  const token = decryptedToken as Record<string, unknown>;
+  const now = io.now();
+  const explanations: Record<string, string> = {};
+  Object.keys(token).forEach((field) => {
+    explanations[field] = explainField(field, token[field], now);
+  });
+
+  if (args.json) {
+    io.stdout(JSON.stringify({ ok: true, token, explanations }) + '\n');
+  } else {
+    const rows = Object.keys(token).map((field) => [field, JSON.stringify(token[field]), explanations[field]]);
+    io.stdout(formatRows(rows));
+  }
+  return EXIT_OK;
+}
+
+function check(args: ParsedArgs, io: TruesignCliIo): number {
+  const policyFile = args.options.policy;
+  if (policyFile === undefined) {
+    throw new Error('`check` needs a policy file, passed with `--policy`');
+  }
+  const policyOptions = readJson(io.readFile(policyFile), `\`${policyFile}\``);
+  if (!isRecord(policyOptions)) {
+    throw new Error(`\`${policyFile}\` must contain the options of \`createTruesignPolicy\``);
+  }
+  const unknownRules = Object.keys(policyOptions).filter((rule) => POLICY_RULES.indexOf(rule as never) === -1);
+  if (unknownRules.length) {
+    throw new Error(`Unknown policy rules: ${unknownRules.join(', ')}`);
+  }
+
+  const decryptedToken = decryptToken(args, io);
+  if (decryptedToken === null) {
+    return EXIT_REJECTED;
+  }
+
+  // A policy stops at its first failing rule, so each rule is evaluated on its own to report all of them
+  const rules = Object.keys(policyOptions).map((rule) => {
+    const policy = createTruesignPolicy({ [rule]: policyOptions[rule] } as TruesignPolicyOptions);
+    return { rule, passed: policy.evaluate(decryptedToken).accepted };
+  });
+  const accepted = rules.every(({ passed }) => passed);
+
+  if (args.json) {
+    io.stdout(JSON.stringify({ ok: accepted, rules }) + '\n');
+  } else {
+    const rows = rules.map(({ rule, passed }) => [passed ? 'PASS' : 'FAIL', rule]);
+    io.stdout(rows.length ? formatRows(rows) : '');
+    io.stdout(accepted ? 'Token accepted\n' : 'Token rejected\n');
+  }
+  return accepted ? EXIT_OK : EXIT_REJECTED;
+}
+
+function forge(args: ParsedArgs, io: TruesignCliIo): number {
+  const preset = args.options.preset ?? 'human';
+  const makeToken = hasOwn(FORGE_PRESETS, preset) ? FORGE_PRESETS[preset] : undefined;
+  if (!makeToken) {
+    throw new Error(`\`--preset\` must be one of ${Object.keys(FORGE_PRESETS).join(', ')}`);
+  }
+  const overrides = args.options.payload === undefined ? {} : readJson(args.options.payload, '`--payload`');
+  if (!isRecord(overrides)) {
+    throw new Error('`--payload` must be a JSON object');
+  }
+
+  const key = readKey(args, io);
+  const payload = makeToken(overrides as Partial<DecryptedToken>);
+  const token = createTruesignToken(key, payload, {
+    encoding: args.options['key-encoding'] as EncryptionKeyEncoding | undefined,
+  });
+
+  io.stdout(args.json ? JSON.stringify({ ok: true, token, payload }) + '\n' : token + '\n');
+  return EXIT_OK;
+}
+
+const COMMANDS: Record<string, (args: ParsedArgs, io: TruesignCliIo) => number> = { decode, check, forge };
+
+/**
+ * Runs the CLI.
+ *
+ * @param argv The arguments, without the node executable and script
+ * @param io TruesignCliIo
+ * @returns The exit code
+ */
+export function runTruesignTokenCli(argv: string[], io: TruesignCliIo): number {
+  let json = argv.indexOf('--json') !== -1;
+  try {
+    const args = parseArgs(argv);
+    json = args.json;
+    const command = args.command !== undefined && hasOwn(COMMANDS, args.command) ? COMMANDS[args.command] : undefined;
+    if (!command) {
+      throw new Error(args.command === undefined ? 'Missing command' : `Unknown command \`${args.command}\``);
+    }
+    return command(args, io);
+  } catch (error) {
+    // Every error is a usage error: invalid arguments, unreadable files or keys of the wrong length
+    const { message } = error as Error;
+    if (json) {
+      io.stdout(JSON.stringify({ ok: false, error: message }) + '\n');
+    } else {
+      io.stderr(`${message}\n\n${USAGE}`);
+    }
+    return EXIT_USAGE;
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = runTruesignTokenCli(process.argv.slice(2), {
+    env: process.env,
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    readFile: (path) => fs.readFileSync(path, 'utf8'),
+    now: Date.now,
+  });
+}
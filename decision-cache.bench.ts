@@ -0,0 +1,36 @@
+/// <reference types="./fastify.d.ts" />
+
+import { getTruesignHook, type TruesignHookConfig } from './index';
+import { createTruesignToken, humanToken, mockTruesignReply, mockTruesignRequest } from './testing';
+
+/**
+ * Compares the hook with and without `cache` on the real decryption, with a few tokens sent on many requests each.
+ *
+ * Run with `npm run bench`.
+ */
+
+const ENCRYPTION_KEY = 'f3Qk7pX9mR2tV8wY4zB6nC1dE5gH0jL3';
+const TOKEN_COUNT = 10;
+const REQUESTS = 20000;
+
+function measure(config: TruesignHookConfig): number {
+  const hook = getTruesignHook(config);
+  const tokens = Array.from({ length: TOKEN_COUNT }, () => createTruesignToken(ENCRYPTION_KEY, humanToken()));
+  const requests = tokens.map((token) => mockTruesignRequest({ token }));
+  const next = () => { };
+
+  const start = process.hrtime();
+  for (let i = 0; i < REQUESTS; i += 1) {
+    hook(requests[i % TOKEN_COUNT], mockTruesignReply(), next);
+  }
+  const [seconds, nanoseconds] = process.hrtime(start);
+  return Math.round(REQUESTS / (seconds + nanoseconds / 1e9));
+}
+
+test('Decision cache throughput', () => {
+  const uncached = measure({ encryptionKey: ENCRYPTION_KEY });
+  const cached = measure({ encryptionKey: ENCRYPTION_KEY, cache: {} });
+
+  console.log(`Without cache: ${uncached} requests/s\nWith cache: ${cached} requests/s`);
+  expect(cached).toBeGreaterThan(uncached);
+});
@@ -0,0 +1,41 @@
+import { createTokenCache } from './decision-cache';
+
+describe('`createTokenCache`', () => {
+  test('Expiring entries after `ttlMs`', () => {
+    let now = 0;
+    const cache = createTokenCache<string>({ ttlMs: 1000, now: () => now });
+
+    cache.set('jarl', 'decrypted');
+    now = 999;
+    expect(cache.get('jarl')).toBe('decrypted');
+    now = 1000;
+    expect(cache.get('jarl')).toBeUndefined();
+  });
+
+  test('Evicting the least recently used entry', () => {
+    const cache = createTokenCache<string>({ maxEntries: 2 });
+
+    cache.set('jarl', 'first');
+    cache.set('fistro', 'second');
+    cache.get('jarl');
+    cache.set('pecador', 'third');
+
+    expect(cache.get('jarl')).toBe('first');
+    expect(cache.get('fistro')).toBeUndefined();
+    expect(cache.get('pecador')).toBe('third');
+  });
+
+  test('Deleting entries', () => {
+    const cache = createTokenCache<string>();
+
+    cache.set('jarl', 'decrypted');
+    cache.delete('jarl');
+    expect(cache.get('jarl')).toBeUndefined();
+  });
+
+  test('Not allowing invalid limits', () => {
+    expect(() => createTokenCache({ maxEntries: 0 })).toThrow('`cache.maxEntries` must be a positive integer');
+    expect(() => createTokenCache({ maxEntries: 1.5 })).toThrow('`cache.maxEntries` must be a positive integer');
+    expect(() => createTokenCache({ ttlMs: -1 })).toThrow('`cache.ttlMs` must be a positive number');
+  });
+});
@@ -0,0 +1,99 @@
+import * as crypto from 'node:crypto';
+
+export type DecisionCacheConfig = {
+  /**
+   * Maximum number of tokens kept. When reached, the least recently used ones are evicted first.
+   *
+   * @default 1000
+   */
+  maxEntries?: number;
+  /**
+   * How long a decrypted token is kept, in milliseconds. Keep it short: it's also how long a retired key (see
+   * `encryptionKeys`) or a changed `shouldAcceptToken` may take to apply to cached tokens.
+   *
+   * @default 10000
+   */
+  ttlMs?: number;
+  /**
+   * Whether the result of `shouldAcceptToken` is cached along with the token. Only enable it when the result depends on
+   * nothing but the token.
+   *
+   * @default false
+   */
+  cacheDecision?: boolean;
+  /**
+   * Clock used to expire the cached tokens.
+   *
+   * @default Date.now
+   */
+  now?: () => number;
+};
+
+/**
+ * A bounded LRU cache with a TTL per entry, keyed by a hash of the token so raw tokens are not kept in memory.
+ */
+export type TokenCache<Value> = {
+  get: (token: string) => Value | undefined;
+  set: (token: string, value: Value) => void;
+  delete: (token: string) => void;
+};
+
+const DEFAULT_CACHE_MAX_ENTRIES = 1000;
+const DEFAULT_CACHE_TTL_MS = 10000;
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token, 'utf8').digest('base64');
+}
+
+/**
+ * Creates a {@link TokenCache}.
+ *
+ * @param config DecisionCacheConfig
+ * @returns TokenCache
+ * @throws Error if `maxEntries` or `ttlMs` are not valid
+ */
+export function createTokenCache<Value>(config: DecisionCacheConfig = {}): TokenCache<Value> {
+  const {
+    maxEntries = DEFAULT_CACHE_MAX_ENTRIES,
+    ttlMs = DEFAULT_CACHE_TTL_MS,
+    now = Date.now,
+  } = config;
+
+  if (!(maxEntries >= 1) || Math.floor(maxEntries) !== maxEntries) {
+    throw new Error('`cache.maxEntries` must be a positive integer');
+  }
+  if (!(ttlMs > 0)) {
+    throw new Error('`cache.ttlMs` must be a positive number');
+  }
+
+  // Insertion order is kept as the order of use, so the least recently used entries are at the beginning of the map
+  const entries = new Map<string, { value: Value; expiresAt: number }>();
+
+  return {
+    get: (token) => {
+      const key = hashToken(token);
+      const entry = entries.get(key);
+      if (entry === undefined) {
+        return undefined;
+      }
+
+      entries.delete(key);
+      if (entry.expiresAt <= now()) {
+        return undefined;
+      }
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set: (token, value) => {
+      const key = hashToken(token);
+      entries.delete(key);
+      if (entries.size >= maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+      entries.set(key, { value, expiresAt: now() + ttlMs });
+    },
+    delete: (token) => {
+      entries.delete(hashToken(token));
+    },
+  };
+}
@@ -0,0 +1,94 @@
+/// <reference types="./fastify.d.ts" />
+
+import type { DecryptedToken } from './index';
+import { getEmailBindingCheck, getEmailTypoSuggestion, normalizeEmailDomain } from './email-binding';
+
+function makeToken(email: string, typo?: string | null): DecryptedToken {
+  return {
+    bot: 0,
+    anonymizer: 0,
+    clusterId: 0,
+    requestId: 1,
+    timestamp: 0,
+    country: 'ES',
+    ipv4: '127.0.0.1',
+    email,
+    disposable: false,
+    notDeliverable: false,
+    typo,
+  };
+}
+
+function makeRequest(body: unknown): FastifyRequest {
+  return { query: {}, headers: {}, ip: '127.0.0.1', body };
+}
+
+describe('`normalizeEmailDomain`', () => {
+  test('Normalizing case, trailing dots and internationalized domains', () => {
+    expect(normalizeEmailDomain(' Gmail.COM. ')).toBe('gmail.com');
+    expect(normalizeEmailDomain('bücher.de')).toBe('xn--bcher-kva.de');
+  });
+});
+
+describe('`getEmailTypoSuggestion`', () => {
+  test('Suggesting the corrected email', () => {
+    expect(getEmailTypoSuggestion(makeToken('jane@gmai.com', 'gmail.com')))
+      .toEqual({ domain: 'gmail.com', email: 'jane@gmail.com' });
+  });
+
+  test('Suggesting only the domain when no email was verified', () => {
+    expect(getEmailTypoSuggestion(makeToken('gmai.com', 'gmail.com'))).toEqual({ domain: 'gmail.com', email: null });
+  });
+
+  test('Handling a missing or `null` typo', () => {
+    expect(getEmailTypoSuggestion(makeToken('jane@gmail.com', null))).toBeNull();
+    expect(getEmailTypoSuggestion(makeToken('jane@gmail.com'))).toBeNull();
+    expect(getEmailTypoSuggestion({ ...makeToken('jane@gmail.com'), email: undefined } as unknown as DecryptedToken))
+      .toBeNull();
+  });
+});
+
+describe('`getEmailBindingCheck`', () => {
+  test('Matching emails regardless of case and domain notation', () => {
+    const checkEmailBinding = getEmailBindingCheck({});
+
+    expect(checkEmailBinding(makeToken('jane@gmail.com'), makeRequest({ email: 'jane@gmail.com' }))).toBeNull();
+    expect(checkEmailBinding(makeToken('Jane@Gmail.com'), makeRequest({ email: ' jane@GMAIL.com. ' }))).toBeNull();
+  });
+
+  test('Rejecting a different email', () => {
+    const checkEmailBinding = getEmailBindingCheck({});
+
+    expect(checkEmailBinding(makeToken('jane@gmail.com'), makeRequest({ email: 'john@gmail.com' })))
+      .toBe('The submitted email doesn\'t match the token');
+    expect(checkEmailBinding(makeToken('jane@gmail.com'), makeRequest({ email: 'jane@yahoo.com' })))
+      .toBe('The submitted email domain doesn\'t match the token');
+  });
+
+  test('Rejecting requests or tokens without email', () => {
+    const checkEmailBinding = getEmailBindingCheck({});
+    const tokenWithoutEmail = { ...makeToken('jane@gmail.com'), email: undefined } as unknown as DecryptedToken;
+
+    expect(checkEmailBinding(makeToken('jane@gmail.com'), makeRequest(undefined))).toBe('No email in the request');
+    expect(checkEmailBinding(makeToken('jane@gmail.com'), makeRequest({ email: 1 }))).toBe('No email in the request');
+    expect(checkEmailBinding(tokenWithoutEmail, makeRequest({ email: 'jane@gmail.com' }))).toBe('The token has no email');
+  });
+
+  test('Matching only domains', () => {
+    const checkEmailBinding = getEmailBindingCheck({ match: 'domain' });
+
+    expect(checkEmailBinding(makeToken('jane@gmail.com'), makeRequest({ email: 'john@gmail.com' }))).toBeNull();
+    expect(getEmailBindingCheck({})(makeToken('gmail.com'), makeRequest({ email: 'john@gmail.com' }))).toBeNull();
+  });
+
+  test('Using a custom field or function', () => {
+    expect(getEmailBindingCheck({ field: 'username' })(
+      makeToken('jane@gmail.com'),
+      makeRequest({ username: 'jane@gmail.com' }),
+    )).toBeNull();
+    expect(getEmailBindingCheck({ getEmail: (req) => req.headers['x-email'] as string })(
+      makeToken('jane@gmail.com'),
+      { ...makeRequest(undefined), headers: { 'x-email': 'jane@gmail.com' } },
+    )).toBeNull();
+  });
+});
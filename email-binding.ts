@@ -0,0 +1,135 @@
+import * as url from 'node:url';
+
+import type { DecryptedToken, TruesignRequestInput } from './index';
+
+export type EmailBindingConfig = {
+  /**
+   * Name of the request body field that holds the submitted email. Ignored if {@link getEmail} is set.
+   *
+   * The body is only parsed after the `onRequest` hook, so use `preValidation` or `preHandler` with this option.
+   *
+   * @default 'email'
+   */
+  field?: string;
+  /**
+   * Custom function to get the submitted email from the request.
+   */
+  getEmail?: (req: TruesignRequestInput) => string | null | undefined;
+  /**
+   * - `email`: the submitted email must be the one verified by Truesign
+   * - `domain`: only the domains must match, e.g. when only the domain was sent to Truesign
+   *
+   * When the token contains just a domain, domains are compared regardless of this option.
+   *
+   * @default 'email'
+   */
+  match?: 'email' | 'domain';
+};
+
+/**
+ * Suggested correction for a mistyped email domain, e.g. `{ domain: 'gmail.com', email: 'jane@gmail.com' }` for
+ * `jane@gmai.com`.
+ */
+export type EmailTypoSuggestion = {
+  /** The domain Truesign suggests instead */
+  domain: string;
+  /** The verified email with the suggested domain, or `null` if only a domain was verified */
+  email: string | null;
+};
+
+/**
+ * Normalizes an email domain: lowercase, without trailing dot, and internationalized domains in their ASCII form.
+ *
+ * @param domain string
+ * @returns The normalized domain
+ */
+export function normalizeEmailDomain(domain: string): string {
+  const lowerCase = domain.trim().toLowerCase().replace(/\.$/, '');
+  // `domainToASCII` returns an empty string for invalid domains, in which case we keep the original
+  return url.domainToASCII(lowerCase) || lowerCase;
+}
+
+type ParsedEmail = {
+  local: string | null;
+  domain: string;
+};
+
+/**
+ * Splits an email (or a bare domain) into its normalized local part and domain. The local part is only trimmed and
+ * lowercased: provider-specific rules like Gmail's dots are not applied.
+ */
+function parseEmail(email: string): ParsedEmail {
+  const at = email.lastIndexOf('@');
+  if (at === -1) {
+    return { local: null, domain: normalizeEmailDomain(email) };
+  }
+  return {
+    local: email.substring(0, at).trim().toLowerCase(),
+    domain: normalizeEmailDomain(email.substring(at + 1)),
+  };
+}
+
+/**
+ * Returns the correction suggested by Truesign when the verified email domain looks like a typo.
+ *
+ * Truesign sends `typo: null` when there's nothing to correct, which is handled like a missing `typo`.
+ *
+ * @param decryptedToken DecryptedToken
+ * @returns EmailTypoSuggestion, or `null` if there's no typo
+ */
+export function getEmailTypoSuggestion(decryptedToken: DecryptedToken): EmailTypoSuggestion | null {
+  if (typeof decryptedToken.typo !== 'string' || !decryptedToken.typo || typeof decryptedToken.email !== 'string') {
+    return null;
+  }
+
+  const domain = decryptedToken.typo;
+  const at = decryptedToken.email.lastIndexOf('@');
+  return {
+    domain,
+    email: at === -1 ? null : `${decryptedToken.email.substring(0, at)}@${domain}`,
+  };
+}
+
+function getBodyField(req: TruesignRequestInput, field: string): string | null {
+  const { body } = req;
+  if (typeof body !== 'object' || body === null) {
+    return null;
+  }
+  const value = (body as Record<string, unknown>)[field];
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Builds the function used by the hook to check that the verified email is the one submitted in the request.
+ *
+ * @param config EmailBindingConfig
+ * @returns A function that returns `null` if the emails match, or the reason why they don't
+ */
+export function getEmailBindingCheck(
+  config: EmailBindingConfig,
+): (decryptedToken: DecryptedToken, req: TruesignRequestInput) => string | null {
+  const { field = 'email', match = 'email' } = config;
+  const getEmail = config.getEmail ?? ((req: TruesignRequestInput) => getBodyField(req, field));
+
+  return (decryptedToken, req) => {
+    if (typeof decryptedToken.email !== 'string') {
+      return 'The token has no email';
+    }
+
+    const submittedEmail = getEmail(req);
+    if (typeof submittedEmail !== 'string' || !submittedEmail.trim()) {
+      return 'No email in the request';
+    }
+
+    const verified = parseEmail(decryptedToken.email);
+    const submitted = parseEmail(submittedEmail);
+    if (verified.domain !== submitted.domain) {
+      return 'The submitted email domain doesn\'t match the token';
+    }
+    if (match === 'email' && verified.local !== null && verified.local !== submitted.local) {
+      return 'The submitted email doesn\'t match the token';
+    }
+
+    return null;
+  };
+}
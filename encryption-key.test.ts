@@ -0,0 +1,71 @@
+import * as crypto from 'node:crypto';
+
+import { getTokenStructureError, parseEncryptionKey } from './encryption-key';
+
+describe('`parseEncryptionKey`', () => {
+  const key = crypto.randomBytes(32);
+
+  test('Decoding raw, hex and base64 keys', () => {
+    const rawKey = '0123456789abcdef0123456789abcdef';
+    expect(parseEncryptionKey(rawKey)).toEqual(Buffer.from(rawKey));
+    expect(parseEncryptionKey(key.toString('hex'), 'hex')).toEqual(key);
+    expect(parseEncryptionKey(key.toString('base64'), 'base64')).toEqual(key);
+    expect(parseEncryptionKey(key.toString('base64').replace(/=+$/, ''), 'base64')).toEqual(key);
+  });
+
+  test('Not allowing keys that are not 32 bytes long', () => {
+    expect(() => parseEncryptionKey('foo')).toThrow('`encryptionKey` must be 32 bytes long, got 3');
+    expect(() => parseEncryptionKey('0123456789abcdef', 'hex', 'encryptionKeys.a'))
+      .toThrow('`encryptionKeys.a` must be 32 bytes long, got 8');
+    expect(() => parseEncryptionKey(key.toString('hex')))
+      .toThrow('`encryptionKey` must be 32 bytes long, got 64, did you mean to set its encoding to `hex` or `base64`?');
+  });
+
+  test('Not allowing keys that are not valid in their encoding', () => {
+    expect(() => parseEncryptionKey(`${key.toString('hex').slice(1)}g`, 'hex'))
+      .toThrow('`encryptionKey` is not a valid hex string');
+    expect(() => parseEncryptionKey(key.toString('hex').slice(1), 'hex'))
+      .toThrow('`encryptionKey` is not a valid hex string');
+    expect(() => parseEncryptionKey(`-${key.toString('base64').slice(1)}`, 'base64'))
+      .toThrow('`encryptionKey` is not a valid base64 string');
+  });
+
+  test('Not allowing empty keys nor unknown encodings', () => {
+    expect(() => parseEncryptionKey('')).toThrow('`encryptionKey` must be a non-empty string');
+    expect(() => parseEncryptionKey(key.toString('hex'), 'utf8' as 'raw'))
+      .toThrow('The encoding of `encryptionKey` must be `raw`, `hex` or `base64`');
+  });
+});
+
+describe('`getTokenStructureError`', () => {
+  const iv = 'abcdefghijklmnop';
+
+  test('Accepting well-formed tokens', () => {
+    expect(getTokenStructureError(iv + crypto.randomBytes(32).toString('base64'))).toBeNull();
+    expect(getTokenStructureError(iv + crypto.randomBytes(48).toString('base64'))).toBeNull();
+  });
+
+  test('Accepting unpadded and base64url ciphertexts', () => {
+    const ciphertext = Buffer.alloc(32, 0xfb).toString('base64');
+
+    expect(getTokenStructureError(iv + ciphertext.replace(/=+$/, ''))).toBeNull();
+    expect(getTokenStructureError(iv + ciphertext.replace(/\+/g, '-').replace(/\//g, '_'))).toBeNull();
+    expect(getTokenStructureError(iv + crypto.randomBytes(16).toString('base64').replace(/=+$/, ''))).toBeNull();
+  });
+
+  test('Rejecting malformed tokens', () => {
+    expect(getTokenStructureError('short')).toBe('Token is shorter than the IV');
+    expect(getTokenStructureError(`abcdefghijklmnó${crypto.randomBytes(16).toString('base64')}`))
+      .toBe('Token IV must be 16 ASCII characters');
+    expect(getTokenStructureError(iv)).toBe('Token ciphertext is not valid base64');
+    expect(getTokenStructureError(`${iv}not base64!`)).toBe('Token ciphertext is not valid base64');
+    expect(getTokenStructureError(`${iv}${crypto.randomBytes(16).toString('base64').slice(0, 21)}`))
+      .toBe('Token ciphertext is not valid base64');
+    expect(getTokenStructureError(`${iv}${crypto.randomBytes(16).toString('base64').slice(0, 22)}=`))
+      .toBe('Token ciphertext is not valid base64');
+    expect(getTokenStructureError(`${iv}${crypto.randomBytes(16).toString('base64')}=`))
+      .toBe('Token ciphertext is not valid base64');
+    expect(getTokenStructureError(iv + crypto.randomBytes(20).toString('base64')))
+      .toBe('Token ciphertext is not a whole number of AES blocks');
+  });
+});
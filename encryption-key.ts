@@ -0,0 +1,91 @@
+import { IV_LENGTH } from './utils';
+
+/**
+ * How an encryption key string is turned into the 32 bytes of the AES-256 key:
+ * - `raw`: the string itself, as UTF-8. Keys listed in the Truesign dashboard are 32 raw characters
+ * - `hex`: 64 hexadecimal characters
+ * - `base64`: 44 base64 characters (43 without padding)
+ */
+export type EncryptionKeyEncoding = 'raw' | 'hex' | 'base64';
+
+const KEY_LENGTH = 32; // AES-256
+const BLOCK_LENGTH = 16;
+
+const ENCRYPTION_KEY_ENCODINGS: EncryptionKeyEncoding[] = ['raw', 'hex', 'base64'];
+const HEX_PATTERN = /^[0-9a-fA-F]*$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+// Like `Buffer.from`, which decoded the ciphertext before it was checked, padding is optional and base64url is accepted
+const TOKEN_BASE64_PATTERN = /^[A-Za-z0-9+/_-]*={0,2}$/;
+
+/**
+ * Decodes an encryption key and checks that it's 32 bytes long, so a wrong key fails at startup instead of on every
+ * request.
+ *
+ * ```
+ * parseEncryptionKey('f3Qk7pX9mR2tV8wY4zB6nC1dE5gH0jL3'); // 32 raw bytes
+ * parseEncryptionKey(process.env.TRUESIGN_KEY_HEX, 'hex');
+ * ```
+ *
+ * @param key The key, as configured
+ * @param encoding EncryptionKeyEncoding
+ * @param option Name of the option the key comes from, used in error messages
+ * @returns The 32 bytes of the key
+ * @throws Error if the encoding is unknown, or the key is not valid in it or not 32 bytes long
+ */
+export function parseEncryptionKey(
+  key: string,
+  encoding: EncryptionKeyEncoding = 'raw',
+  option = 'encryptionKey',
+): Buffer {
+  if (ENCRYPTION_KEY_ENCODINGS.indexOf(encoding) === -1) {
+    throw new Error(`The encoding of \`${option}\` must be \`raw\`, \`hex\` or \`base64\``);
+  }
+  if (typeof key !== 'string' || !key) {
+    throw new Error(`\`${option}\` must be a non-empty string`);
+  }
+
+  // `Buffer.from` silently skips invalid characters, so the alphabet is checked first
+  if (encoding === 'hex' && (!HEX_PATTERN.test(key) || key.length % 2 !== 0)) {
+    throw new Error(`\`${option}\` is not a valid hex string`);
+  }
+  if (encoding === 'base64' && !BASE64_PATTERN.test(key)) {
+    throw new Error(`\`${option}\` is not a valid base64 string`);
+  }
+
+  const bytes = Buffer.from(key, encoding === 'raw' ? 'utf8' : encoding);
+  if (bytes.length !== KEY_LENGTH) {
+    const hint = encoding === 'raw' && (bytes.length === KEY_LENGTH * 2 || bytes.length === 44)
+      ? ', did you mean to set its encoding to `hex` or `base64`?'
+      : '';
+    throw new Error(`\`${option}\` must be ${KEY_LENGTH} bytes long, got ${bytes.length}${hint}`);
+  }
+  return bytes;
+}
+
+/**
+ * Checks the structure of a token before decrypting it: a 16-character ASCII IV followed by the base64 ciphertext,
+ * which must be a whole number of AES blocks. The ciphertext can also be unpadded, or base64url.
+ *
+ * @param token string
+ * @returns Why the token is malformed, or `null` if it could be decrypted
+ */
+export function getTokenStructureError(token: string): string | null {
+  if (token.length < IV_LENGTH) {
+    return 'Token is shorter than the IV';
+  }
+  if (Buffer.byteLength(token.substring(0, IV_LENGTH)) !== IV_LENGTH) {
+    return 'Token IV must be 16 ASCII characters';
+  }
+
+  const ciphertext = token.substring(IV_LENGTH);
+  const data = ciphertext.replace(/=+$/, '');
+  // A single character left over can't encode a byte, and padding must complete the last group of 4
+  if (!data.length || !TOKEN_BASE64_PATTERN.test(ciphertext) || data.length % 4 === 1
+    || (data !== ciphertext && ciphertext.length % 4 !== 0)) {
+    return 'Token ciphertext is not valid base64';
+  }
+  if (Math.floor(data.length * 3 / 4) % BLOCK_LENGTH !== 0) {
+    return 'Token ciphertext is not a whole number of AES blocks';
+  }
+  return null;
+}
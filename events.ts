@@ -0,0 +1,53 @@
+import type { DecryptedToken, TruesignRequestInfo, TruesignRequestInput } from './index';
+import type { TruesignRejection } from './rejection';
+
+export type TruesignAcceptedEvent = {
+  req: TruesignRequestInput;
+  /** `null` when the request was accepted on a session cookie, whose verdict is in `info.session` */
+  token: DecryptedToken | null;
+  info: TruesignRequestInfo;
+};
+
+export type TruesignBypassedEvent = {
+  req: TruesignRequestInput;
+  /** Name of the bypass rule that matched */
+  rule: string;
+};
+
+export type TruesignRejectedEvent = {
+  req: TruesignRequestInput;
+  rejection: TruesignRejection;
+  /**
+   * `false` in `report` mode, where the request is let through anyway.
+   */
+  enforced: boolean;
+};
+
+/**
+ * Callbacks called as the hook makes decisions, e.g. to collect metrics. They're called before the request is
+ * resumed or the rejection response is sent, and errors they throw are logged and ignored.
+ *
+ * Unlike logs, events are never sampled.
+ */
+export type TruesignLifecycleEvents = {
+  /**
+   * Called when the request has no token. {@link onRejected} is called too.
+   */
+  onTokenMissing?: (event: TruesignRejectedEvent) => void;
+  /**
+   * Called when the token can't be decrypted or its payload is invalid. {@link onRejected} is called too.
+   */
+  onDecryptFailure?: (event: TruesignRejectedEvent) => void;
+  /**
+   * Called when the token, or the session cookie, is accepted.
+   */
+  onAccepted?: (event: TruesignAcceptedEvent) => void;
+  /**
+   * Called when a `bypass` rule lets the request through without checking its token.
+   */
+  onBypassed?: (event: TruesignBypassedEvent) => void;
+  /**
+   * Called for every rejection, whatever the reason.
+   */
+  onRejected?: (event: TruesignRejectedEvent) => void;
+};
@@ -0,0 +1,74 @@
+import {
+  createTruesignRequestHandler,
+  type TruesignHookConfig,
+  type TruesignReply,
+  type TruesignRequestInput,
+} from './index';
+import { chain } from './maybe-promise';
+
+// Like with Fastify, Express is typed by hand so it doesn't become a dependency. Only what the middleware uses is
+// typed.
+
+/**
+ * The Express request. It has every field the checks read, `body` once a body parser ran.
+ */
+export type ExpressRequest = TruesignRequestInput;
+
+export type ExpressResponse = {
+  status: (statusCode: number) => ExpressResponse;
+  setHeader: (name: string, value: string) => unknown;
+  append: (name: string, value: string) => unknown;
+  send: (body?: unknown) => unknown;
+};
+
+export type ExpressNextFunction = (err?: unknown) => void;
+
+export type TruesignExpressMiddleware = (req: ExpressRequest, res: ExpressResponse, next: ExpressNextFunction) => void;
+
+function toTruesignReply(res: ExpressResponse): TruesignReply {
+  const reply: TruesignReply = {
+    code: (statusCode) => {
+      res.status(statusCode);
+      return reply;
+    },
+    header: (name, value) => {
+      // Like Fastify, cookies are appended so the ones the app set are kept
+      if (name.toLowerCase() === 'set-cookie') {
+        res.append(name, value);
+      } else {
+        res.setHeader(name, value);
+      }
+      return reply;
+    },
+    send: (body) => {
+      res.send(body);
+    },
+  };
+  return reply;
+}
+
+/**
+ * Returns an Express middleware that validates Truesign tokens and injects the decrypted token in the request, like
+ * {@link getTruesignHook} does for Fastify.
+ *
+ * ```
+ * app.use(getTruesignExpressMiddleware({ encryptionKey: process.env.TRUESIGN_KEY }));
+ * ```
+ *
+ * @param config TruesignHookConfig
+ * @returns Express middleware
+ * @throws Error if the config is not valid
+ */
+export function getTruesignExpressMiddleware<AdditionalConfig extends Record<string, unknown> = {}>(
+  config: TruesignHookConfig<AdditionalConfig>,
+): TruesignExpressMiddleware {
+  const handle = createTruesignRequestHandler(config);
+
+  return (req, res, next) => {
+    chain(handle(req, toTruesignReply(res)), (proceed) => {
+      if (proceed) {
+        next();
+      }
+    });
+  };
+}
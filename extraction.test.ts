@@ -0,0 +1,112 @@
+/// <reference types="./fastify.d.ts" />
+
+import {
+  extractTrueSignToken,
+  extractTruesignTokenFromAuthorization,
+  extractTruesignTokenFromBody,
+  extractTruesignTokenFromCookie,
+  extractTruesignTokenFromHeader,
+  extractTruesignTokenFromQuery,
+  firstOf,
+  requireAll,
+} from './extraction';
+
+function makeRequest(request: Partial<FastifyRequest>): FastifyRequest {
+  return { headers: {}, query: {}, ...request } as FastifyRequest;
+}
+
+describe('Duplicated values', () => {
+  const query = { 'ts-token': ['first-token', 'last-token'] } as unknown as FastifyRequest['query'];
+  const headers = { 'x-ts-token': ['first-token', 'last-token'] };
+
+  test('Ignoring them by default', () => {
+    expect(extractTruesignTokenFromQuery('ts-token')(makeRequest({ query }))).toBeNull();
+    expect(extractTruesignTokenFromHeader('x-ts-token')(makeRequest({ headers }))).toBeNull();
+    expect(extractTruesignTokenFromQuery('ts-token')(makeRequest({ query: { 'ts-token': ['token'] } }))).toBe('token');
+  });
+
+  test('Taking the first or the last one', () => {
+    expect(extractTruesignTokenFromQuery('ts-token', { duplicates: 'first' })(makeRequest({ query })))
+      .toBe('first-token');
+    expect(extractTruesignTokenFromHeader('X-TS-Token', { duplicates: 'last' })(makeRequest({ headers })))
+      .toBe('last-token');
+    expect(extractTrueSignToken({ duplicates: 'last' })(makeRequest({ headers }))).toBe('last-token');
+  });
+});
+
+describe('`extractTruesignTokenFromAuthorization`', () => {
+  test('Extracting a bearer token', () => {
+    const extract = extractTruesignTokenFromAuthorization();
+
+    expect(extract(makeRequest({ headers: { authorization: 'Bearer jarl' } }))).toBe('jarl');
+    expect(extract(makeRequest({ headers: { authorization: 'bearer  jarl ' } }))).toBe('jarl');
+    expect(extract(makeRequest({ headers: { authorization: 'Basic amFybA==' } }))).toBeNull();
+    expect(extract(makeRequest({ headers: { authorization: 'Bearer ' } }))).toBeNull();
+  });
+
+  test('Supporting custom schemes', () => {
+    const extract = extractTruesignTokenFromAuthorization('Truesign');
+
+    expect(extract(makeRequest({ headers: { authorization: 'Truesign jarl' } }))).toBe('jarl');
+  });
+});
+
+describe('`extractTruesignTokenFromCookie`', () => {
+  test('Extracting the token from the cookie header', () => {
+    const extract = extractTruesignTokenFromCookie('ts-token');
+
+    expect(extract(makeRequest({ headers: { cookie: 'session=abc; ts-token=jarl%3D%3D; theme=dark' } })))
+      .toBe('jarl==');
+    expect(extract(makeRequest({ headers: { cookie: 'ts-token="jarl"' } }))).toBe('jarl');
+    expect(extract(makeRequest({ headers: { cookie: 'session=abc' } }))).toBeNull();
+    expect(extract(makeRequest({}))).toBeNull();
+  });
+
+  test('Applying the duplicates policy to repeated cookies', () => {
+    const request = makeRequest({ headers: { cookie: 'ts-token=first-token; ts-token=last-token' } });
+
+    expect(extractTruesignTokenFromCookie('ts-token')(request)).toBeNull();
+    expect(extractTruesignTokenFromCookie('ts-token', { duplicates: 'first' })(request)).toBe('first-token');
+  });
+});
+
+describe('`extractTruesignTokenFromBody`', () => {
+  test('Extracting the token from a parsed body', () => {
+    const extract = extractTruesignTokenFromBody('tsToken');
+
+    expect(extract(makeRequest({ body: { tsToken: 'jarl' } }))).toBe('jarl');
+    expect(extract(makeRequest({ body: { tsToken: 42 } }))).toBeNull();
+    expect(extract(makeRequest({ body: 'tsToken=jarl' }))).toBeNull();
+    expect(extract(makeRequest({}))).toBeNull();
+  });
+});
+
+describe('Combinators', () => {
+  const fromHeader = extractTruesignTokenFromHeader('x-ts-token');
+  const fromCookie = extractTruesignTokenFromCookie('ts-token');
+
+  test('`firstOf` returning the first token found', () => {
+    const extract = firstOf(fromHeader, fromCookie);
+
+    expect(extract(makeRequest({ headers: { cookie: 'ts-token=from-cookie' } }))).toBe('from-cookie');
+    expect(extract(makeRequest({ headers: { 'x-ts-token': 'from-header', cookie: 'ts-token=from-cookie' } })))
+      .toBe('from-header');
+    expect(extract(makeRequest({}))).toBeNull();
+  });
+
+  test('`firstOf` supporting async extractors', async () => {
+    const extract = firstOf(fromHeader, async () => 'from-async');
+
+    await expect(extract(makeRequest({}))).resolves.toBe('from-async');
+    expect(extract(makeRequest({ headers: { 'x-ts-token': 'from-header' } }))).toBe('from-header');
+  });
+
+  test('`requireAll` requiring the same token from every extractor', () => {
+    const extract = requireAll(fromHeader, fromCookie);
+
+    expect(extract(makeRequest({ headers: { 'x-ts-token': 'jarl', cookie: 'ts-token=jarl' } }))).toBe('jarl');
+    expect(extract(makeRequest({ headers: { 'x-ts-token': 'jarl', cookie: 'ts-token=fistro' } }))).toBeNull();
+    expect(extract(makeRequest({ headers: { 'x-ts-token': 'jarl' } }))).toBeNull();
+    expect(() => requireAll()).toThrow('`requireAll` needs at least one extractor');
+  });
+});
@@ -0,0 +1,253 @@
+import type { AnyExtractTokenFunction, ExtractTokenFunction, TruesignRequestInput } from './index';
+import { chain, type MaybePromise } from './maybe-promise';
+import { isRecord } from './utils';
+
+/**
+ * What to do when a header, query param, cookie or body field is repeated:
+ * - `reject`: the value is ignored, as if it was missing. Other extractors (see {@link firstOf}) still get a chance
+ * - `first`: the first value is used
+ * - `last`: the last value is used
+ */
+export type DuplicateValuePolicy = 'reject' | 'first' | 'last';
+
+export type ExtractorOptions = {
+  /**
+   * @default 'reject'
+   */
+  duplicates?: DuplicateValuePolicy;
+};
+
+/**
+ * Picks the token from a raw value, which may be repeated (an array) or not a string at all.
+ */
+function pickValue(value: unknown, duplicates: DuplicateValuePolicy = 'reject'): string | null {
+  let picked = value;
+  if (Array.isArray(value)) {
+    if (value.length > 1 && duplicates === 'reject') {
+      return null;
+    }
+    picked = duplicates === 'last' ? value[value.length - 1] : value[0];
+  }
+
+  return typeof picked === 'string' && picked ? picked : null;
+}
+
+/**
+ * Generates a function that extracts the Truesign token from a query string param.
+ *
+ * @param queryParam Query param name where the token is expected to be found (case-sensitive)
+ * @param options ExtractorOptions
+ * @returns A function that extracts the token from the request
+ */
+export function extractTruesignTokenFromQuery(
+  queryParam: string,
+  options: ExtractorOptions = {},
+): ExtractTokenFunction {
+  return (req: TruesignRequestInput) => {
+    if (!isRecord(req.query)) {
+      return null;
+    }
+
+    return pickValue(req.query[queryParam], options.duplicates);
+  };
+}
+
+/**
+ * Generates a function that extracts the Truesign token from a header.
+ *
+ * Node.js joins most repeated headers with `, `, so {@link ExtractorOptions.duplicates} only applies to headers that
+ * reach the request as arrays.
+ *
+ * @param headerName Header name where the token is expected to be found (case-insensitive)
+ * @param options ExtractorOptions
+ * @returns A function that extracts the token from the request
+ */
+export function extractTruesignTokenFromHeader(
+  headerName: string,
+  options: ExtractorOptions = {},
+): ExtractTokenFunction {
+  const headerNameLower = headerName.toLowerCase();
+
+  return (req: TruesignRequestInput) => pickValue(req.headers[headerNameLower], options.duplicates);
+}
+
+/**
+ * Generates a function that extracts the Truesign token from the `Authorization` header, e.g.
+ * `Authorization: Bearer <token>`.
+ *
+ * @param scheme Authentication scheme that must precede the token (case-insensitive)
+ * @returns A function that extracts the token from the request
+ */
+export function extractTruesignTokenFromAuthorization(scheme = 'Bearer'): ExtractTokenFunction {
+  const prefix = `${scheme.toLowerCase()} `;
+
+  return (req: TruesignRequestInput) => {
+    const authorization = pickValue(req.headers.authorization);
+    if (authorization === null || authorization.substring(0, prefix.length).toLowerCase() !== prefix) {
+      return null;
+    }
+
+    return authorization.substring(prefix.length).trim() || null;
+  };
+}
+
+/**
+ * Parses a `Cookie` header into the values of each cookie name, in order.
+ */
+function parseCookies(header: string): Record<string, string[]> {
+  const cookies: Record<string, string[]> = {};
+
+  header.split(';').forEach((pair) => {
+    const separator = pair.indexOf('=');
+    if (separator === -1) {
+      return;
+    }
+
+    const name = pair.substring(0, separator).trim();
+    let value = pair.substring(separator + 1).trim();
+    if (value.length >= 2 && value[0] === '"' && value[value.length - 1] === '"') {
+      value = value.substring(1, value.length - 1);
+    }
+    try {
+      value = decodeURIComponent(value);
+    } catch {
+      // Malformed escapes are kept as is, like most cookie parsers do
+    }
+
+    cookies[name] = (cookies[name] || []).concat(value);
+  });
+
+  return cookies;
+}
+
+/**
+ * Generates a function that extracts the Truesign token from a cookie. The `Cookie` header is parsed directly, so
+ * `@fastify/cookie` is not needed.
+ *
+ * Browsers send several cookies with the same name when they were set for different paths or domains, which is
+ * handled with {@link ExtractorOptions.duplicates}.
+ *
+ * @param cookieName Cookie name where the token is expected to be found (case-sensitive)
+ * @param options ExtractorOptions
+ * @returns A function that extracts the token from the request
+ */
+export function extractTruesignTokenFromCookie(
+  cookieName: string,
+  options: ExtractorOptions = {},
+): ExtractTokenFunction {
+  return (req: TruesignRequestInput) => {
+    const header = pickValue(req.headers.cookie, 'first');
+    if (header === null) {
+      return null;
+    }
+
+    return pickValue(parseCookies(header)[cookieName], options.duplicates);
+  };
+}
+
+/**
+ * Generates a function that extracts the Truesign token from a field of the parsed body, either JSON or a form.
+ *
+ * The body is only parsed after the `onRequest` hook, so use `preValidation` or `preHandler` with this extractor.
+ *
+ * @param field Body field where the token is expected to be found (case-sensitive)
+ * @param options ExtractorOptions
+ * @returns A function that extracts the token from the request
+ */
+export function extractTruesignTokenFromBody(
+  field: string,
+  options: ExtractorOptions = {},
+): ExtractTokenFunction {
+  return (req: TruesignRequestInput) => {
+    if (!isRecord(req.body)) {
+      return null;
+    }
+
+    return pickValue(req.body[field], options.duplicates);
+  };
+}
+
+/**
+ * Combines extractors, returning the token found by the first one that finds any.
+ *
+ * ```
+ * extractToken: firstOf(
+ *   extractTruesignTokenFromAuthorization(),
+ *   extractTruesignTokenFromCookie('ts-token'),
+ * ),
+ * ```
+ *
+ * @param extractors Extractors, in order of preference
+ * @returns A function that extracts the token from the request. It's only async if some extractor is.
+ */
+export function firstOf(...extractors: ExtractTokenFunction[]): ExtractTokenFunction;
+export function firstOf(...extractors: AnyExtractTokenFunction[]): AnyExtractTokenFunction;
+export function firstOf(...extractors: AnyExtractTokenFunction[]): AnyExtractTokenFunction {
+  return (req) => {
+    const tryFrom = (index: number): MaybePromise<string | null> => {
+      if (index >= extractors.length) {
+        return null;
+      }
+      return chain(extractors[index](req), (token) => (token === null ? tryFrom(index + 1) : token));
+    };
+
+    return tryFrom(0);
+  };
+}
+
+/**
+ * Combines extractors that must all find the same token, e.g. to require it both in a cookie and in a header.
+ *
+ * @param extractors Extractors
+ * @returns A function that extracts the token from the request, or returns `null` if any extractor finds no token or a
+ * different one. It's only async if some extractor is.
+ */
+export function requireAll(...extractors: ExtractTokenFunction[]): ExtractTokenFunction;
+export function requireAll(...extractors: AnyExtractTokenFunction[]): AnyExtractTokenFunction;
+export function requireAll(...extractors: AnyExtractTokenFunction[]): AnyExtractTokenFunction {
+  if (extractors.length === 0) {
+    throw new Error('`requireAll` needs at least one extractor');
+  }
+
+  return (req) => {
+    const checkFrom = (index: number, expected: string): MaybePromise<string | null> => {
+      if (index >= extractors.length) {
+        return expected;
+      }
+      return chain(extractors[index](req), (token) => (token === expected ? checkFrom(index + 1, expected) : null));
+    };
+
+    return chain(extractors[0](req), (token) => (token === null ? null : checkFrom(1, token)));
+  };
+}
+
+export type ExtractTrueSignTokenOptions = ExtractorOptions & {
+  queryParam?: string;
+  headerName?: string;
+};
+
+const DEFAULT_EXTRACT_QUERY_PARAM = 'ts-token';
+const DEFAULT_EXTRACT_HEADER_NAME = 'x-ts-token';
+
+/**
+ * Default Truesign token extraction function.
+ *
+ * Extracts the Truesign token from either a query parameter or a header.
+ *
+ * @param queryParam Query param name where the token is expected to be found (case-sensitive)
+ * @param headerName Header name where the token is expected to be found (case-insensitive)
+ * @param duplicates What to do when the query param or the header is repeated
+ * @returns A function that extracts the token from the request
+ */
+export function extractTrueSignToken(options: ExtractTrueSignTokenOptions = {}): ExtractTokenFunction {
+  const {
+    queryParam = DEFAULT_EXTRACT_QUERY_PARAM,
+    headerName = DEFAULT_EXTRACT_HEADER_NAME,
+    duplicates,
+  } = options;
+
+  return firstOf(
+    extractTruesignTokenFromQuery(queryParam, { duplicates }),
+    extractTruesignTokenFromHeader(headerName, { duplicates }),
+  );
+}
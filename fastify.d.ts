@@ -1,19 +1,18 @@
-// We manually type FastifyRequest and FastifyReply to avoid adding fastify as a dependency, which makes it hard for the
-// hook to work in both Fastify v2 and v3 projects.
-//
-// This is the bare minimum we need from those types to make the hook work and be properly typed.
-//
-// Since this file is not shipped in the package (only the built files in `dist`) the receiver of the package will
-// typecheck against their own Fastify version, so this should be safe.
+// The Fastify types used by the tests, as aliases of the hand-written structural types the package exports. Those are
+// what the built files in `dist` are typed with, so the receiver of the package typechecks against them, whatever its
+// Fastify version (or framework) is.
 
-type FastifyRequest = {
-  query: unknown;
-  headers: Record<string, string | string[] | undefined>;
-};
+type FastifyRequest = import('./index').TruesignRequestInput;
+
+type FastifyReply = import('./index').TruesignReply;
+
+type HookHandlerDoneFunction = import('./index').TruesignHookDoneFunction;
+
+type FastifyHookName = import('./index').TruesignHookName;
 
-type FastifyReply = {
-  code: (statusCode: number) => FastifyReply;
-  send: (body?: unknown) => void;
+type FastifyRouteOptions = import('./index').TruesignRouteOptions & {
+  method: string | string[];
+  url: string;
 };
 
-type HookHandlerDoneFunction = <TError extends Error>(err?: TError) => void
\ No newline at end of file
+type FastifyInstance = import('./index').TruesignFastifyInstance;
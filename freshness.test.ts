@@ -0,0 +1,57 @@
+import { getFreshnessCheck } from './freshness';
+
+describe('`getFreshnessCheck`', () => {
+  const now = 1700000000000;
+
+  test('Not allowing a non-positive max age', () => {
+    expect(() => getFreshnessCheck({ maxTokenAgeMs: 0 })).toThrow('`maxTokenAgeMs` must be a positive number');
+  });
+
+  test('Not allowing a negative clock skew', () => {
+    expect(() => getFreshnessCheck({ maxTokenAgeMs: 1000, allowedClockSkewMs: -1 }))
+      .toThrow('`allowedClockSkewMs` must be a non-negative number');
+  });
+
+  test('Accepting tokens inside the max age', () => {
+    const checkFreshness = getFreshnessCheck({ maxTokenAgeMs: 30000, allowedClockSkewMs: 0, now: () => now });
+
+    expect(checkFreshness(now)).toBe('fresh');
+    expect(checkFreshness(now - 30000)).toBe('fresh');
+  });
+
+  test('Rejecting expired tokens', () => {
+    const checkFreshness = getFreshnessCheck({ maxTokenAgeMs: 30000, allowedClockSkewMs: 0, now: () => now });
+
+    expect(checkFreshness(now - 30001)).toBe('expired');
+  });
+
+  test('Rejecting future-dated tokens', () => {
+    const checkFreshness = getFreshnessCheck({ maxTokenAgeMs: 30000, allowedClockSkewMs: 0, now: () => now });
+
+    expect(checkFreshness(now + 1)).toBe('future');
+  });
+
+  test('Tolerating the clock skew in both directions', () => {
+    const checkFreshness = getFreshnessCheck({ maxTokenAgeMs: 30000, allowedClockSkewMs: 2000, now: () => now });
+
+    expect(checkFreshness(now + 2000)).toBe('fresh');
+    expect(checkFreshness(now + 2001)).toBe('future');
+    expect(checkFreshness(now - 32000)).toBe('fresh');
+    expect(checkFreshness(now - 32001)).toBe('expired');
+  });
+
+  test('Using a 5 seconds clock skew by default', () => {
+    const checkFreshness = getFreshnessCheck({ maxTokenAgeMs: 30000, now: () => now });
+
+    expect(checkFreshness(now + 5000)).toBe('fresh');
+    expect(checkFreshness(now + 5001)).toBe('future');
+  });
+
+  test('Rejecting non-numeric timestamps', () => {
+    const checkFreshness = getFreshnessCheck({ maxTokenAgeMs: 30000, now: () => now });
+
+    expect(checkFreshness(String(now))).toBe('invalid');
+    expect(checkFreshness(undefined)).toBe('invalid');
+    expect(checkFreshness(NaN)).toBe('invalid');
+  });
+});
@@ -0,0 +1,68 @@
+export type TokenFreshnessConfig = {
+  /**
+   * Maximum age of a token in milliseconds, measured from its `timestamp`.
+   */
+  maxTokenAgeMs: number;
+  /**
+   * Tolerated difference between Truesign's clock and this server's clock, in milliseconds.
+   *
+   * It's applied in both directions: tokens up to this much older than {@link maxTokenAgeMs} are still accepted, and so
+   * are tokens dated up to this much in the future.
+   *
+   * @default 5000
+   */
+  allowedClockSkewMs?: number;
+  /**
+   * Clock used to compute the token age, as Unix epoch with millisecond resolution.
+   *
+   * @default Date.now
+   */
+  now?: () => number;
+};
+
+/**
+ * - `fresh`: the token can be accepted
+ * - `expired`: the token is older than the configured maximum age
+ * - `future`: the token is dated in the future, beyond the tolerated clock skew
+ * - `invalid`: the token timestamp is not a finite number
+ */
+export type TokenFreshness = 'fresh' | 'expired' | 'future' | 'invalid';
+
+export const DEFAULT_ALLOWED_CLOCK_SKEW_MS = 5000;
+
+/**
+ * Validates a freshness config and returns a function that classifies token timestamps.
+ *
+ * @param config TokenFreshnessConfig
+ * @returns A function that receives a token `timestamp` and returns its {@link TokenFreshness}
+ */
+export function getFreshnessCheck(config: TokenFreshnessConfig): (timestamp: unknown) => TokenFreshness {
+  const {
+    maxTokenAgeMs,
+    allowedClockSkewMs = DEFAULT_ALLOWED_CLOCK_SKEW_MS,
+    now = Date.now,
+  } = config;
+
+  if (!(maxTokenAgeMs > 0)) {
+    throw new Error('`maxTokenAgeMs` must be a positive number');
+  }
+  if (!(allowedClockSkewMs >= 0)) {
+    throw new Error('`allowedClockSkewMs` must be a non-negative number');
+  }
+
+  return (timestamp) => {
+    if (typeof timestamp !== 'number' || !isFinite(timestamp)) {
+      return 'invalid';
+    }
+
+    const age = now() - timestamp;
+    if (age < -allowedClockSkewMs) {
+      return 'future';
+    }
+    if (age > maxTokenAgeMs + allowedClockSkewMs) {
+      return 'expired';
+    }
+
+    return 'fresh';
+  };
+}
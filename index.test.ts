@@ -1,6 +1,27 @@
 /// <reference types="./fastify.d.ts" />
 
-import { type DecryptedToken, extractTruesignTokenFromHeader, extractTruesignTokenFromQuery, getTruesignHook, TruesignHookConfig } from './index';
+import * as crypto from 'node:crypto';
+
+import {
+  createMemoryRateLimitStore,
+  createTruesignMeta,
+  createTruesignPolicy,
+  type DecryptedToken,
+  decryptTruesignToken,
+  decryptTruesignTokenDetailed,
+  evaluateTruesignRequest,
+  extractTruesignTokenFromHeader,
+  extractTruesignTokenFromQuery,
+  getAsyncTruesignHook,
+  getTruesignHook,
+  type ReplayStore,
+  TruesignHookConfig,
+  type TruesignLogger,
+  type TruesignRejection,
+} from './index';
+import { createTruesignToken, humanToken } from './testing';
+
+const ENCRYPTION_KEY = '0123456789abcdef0123456789abcdef';
 
 function makeMockFastifyRequest(
   {
@@ -20,6 +41,7 @@ function makeMockFastifyRequest(
 function makeMockFastifyReply(): FastifyReply {
   const mockReply = {
     code: jest.fn((): FastifyReply => mockReply),
+    header: jest.fn((): FastifyReply => mockReply),
     send: jest.fn(),
   };
 
@@ -91,7 +113,7 @@ describe('Failed authentication (401)', () => {
   test('If the token is not provided', () => {
     const config: TruesignHookConfig = {
       shouldAcceptToken: () => false,
-      encryptionKey: 'foo',
+      encryptionKey: ENCRYPTION_KEY,
     }
     const mockNext = jest.fn();
     const mockReply = makeMockFastifyReply();
@@ -105,6 +127,7 @@ describe('Failed authentication (401)', () => {
   });
 
   test('If the token could not be decrypted', () => {
+    const spyConsoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => { });
     const config: TruesignHookConfig = {
       encryptionKey: 'foo',
       decryptFunction: () => null,
@@ -122,6 +145,7 @@ describe('Failed authentication (401)', () => {
     hook(mockRequest, mockReply, mockNext);
     expect(spyCode).toBeCalledWith(401);
     expect(mockNext).not.toBeCalled();
+    spyConsoleWarn.mockRestore();
   });
 
   test('If `shouldAcceptToken` resolves to false', () => {
@@ -319,3 +343,1420 @@ describe('`allowUnauthenticated`', () => {
     expect(mockNext).toBeCalledWith();
   });
 });
+
+describe('`replayProtection`', () => {
+  function flushPromises(): Promise<void> {
+    return new Promise((resolve) => setImmediate(resolve));
+  }
+
+  test('Rejecting a token reused after being accepted', async () => {
+    const config: TruesignHookConfig = {
+      encryptionKey: 'foo',
+      decryptFunction: () => ({ requestId: 1 } as unknown as DecryptedToken),
+      replayProtection: { windowMs: 60000 },
+    };
+    const hook = getTruesignHook(config);
+
+    const firstNext = jest.fn();
+    const firstReply = makeMockFastifyReply();
+    hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), firstReply, firstNext);
+    await flushPromises();
+    expect(firstNext).toBeCalledWith();
+    expect(firstReply.code).not.toBeCalled();
+
+    const secondNext = jest.fn();
+    const secondReply = makeMockFastifyReply();
+    hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), secondReply, secondNext);
+    await flushPromises();
+    expect(secondNext).not.toBeCalled();
+    expect(secondReply.code).toBeCalledWith(401);
+  });
+
+  test('Accepting only one of several concurrent requests with the same token', async () => {
+    // Simulates a remote store that answers after some latency
+    const seen = new Set<string>();
+    const slowStore: ReplayStore = {
+      markSeen: (key) => new Promise((resolve) => {
+        const firstUse = !seen.has(key);
+        seen.add(key);
+        setTimeout(() => resolve(firstUse), 5);
+      }),
+    };
+    const config: TruesignHookConfig = {
+      encryptionKey: 'foo',
+      decryptFunction: () => ({ requestId: 1 } as unknown as DecryptedToken),
+      replayProtection: { windowMs: 60000, store: slowStore },
+    };
+    const hook = getTruesignHook(config);
+
+    const calls = [1, 2, 3, 4].map(() => ({ next: jest.fn(), reply: makeMockFastifyReply() }));
+    calls.forEach(({ next, reply }) => {
+      hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), reply, next);
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(calls.filter(({ next }) => next.mock.calls.length === 1)).toHaveLength(1);
+    expect(calls.filter(({ reply }) => (reply.code as jest.Mock).mock.calls.length === 1)).toHaveLength(3);
+  });
+
+  test('Not recording tokens rejected by `shouldAcceptToken`', async () => {
+    const markSeen = jest.fn(() => Promise.resolve(true));
+    const config: TruesignHookConfig = {
+      encryptionKey: 'foo',
+      shouldAcceptToken: () => false,
+      decryptFunction: () => ({ requestId: 1 } as unknown as DecryptedToken),
+      replayProtection: { windowMs: 60000, store: { markSeen } },
+    };
+    const mockReply = makeMockFastifyReply();
+
+    getTruesignHook(config)(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), mockReply, jest.fn());
+    await flushPromises();
+
+    expect(markSeen).not.toBeCalled();
+    expect(mockReply.code).toBeCalledWith(401);
+  });
+
+  test('Rejecting when the store fails', async () => {
+    const spyConsoleError = jest.spyOn(console, 'error').mockImplementation(() => { });
+    const config: TruesignHookConfig = {
+      encryptionKey: 'foo',
+      decryptFunction: () => ({ requestId: 1 } as unknown as DecryptedToken),
+      replayProtection: { windowMs: 60000, store: { markSeen: () => Promise.reject(new Error('Store down')) } },
+    };
+    const mockNext = jest.fn();
+    const mockReply = makeMockFastifyReply();
+
+    getTruesignHook(config)(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), mockReply, mockNext);
+    await flushPromises();
+
+    expect(mockNext).not.toBeCalled();
+    expect(mockReply.code).toBeCalledWith(401);
+    spyConsoleError.mockRestore();
+  });
+});
+
+describe('Token freshness', () => {
+  const now = 1700000000000;
+
+  function runHook(config: TruesignHookConfig, timestamp: unknown) {
+    const mockNext = jest.fn();
+    const mockReply = makeMockFastifyReply();
+    const hook = getTruesignHook({
+      ...config,
+      decryptFunction: () => ({ timestamp } as unknown as DecryptedToken),
+    });
+    hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), mockReply, mockNext);
+    return { mockNext, mockReply };
+  }
+
+  test('Accepting a fresh token', () => {
+    const { mockNext, mockReply } = runHook({ encryptionKey: 'foo', maxTokenAgeMs: 30000, now: () => now }, now - 1000);
+    expect(mockReply.code).not.toBeCalled();
+    expect(mockNext).toBeCalledWith();
+  });
+
+  test('Rejecting an expired token', () => {
+    const { mockNext, mockReply } = runHook({ encryptionKey: 'foo', maxTokenAgeMs: 30000, now: () => now }, now - 60000);
+    expect(mockReply.code).toBeCalledWith(401);
+    expect(mockNext).not.toBeCalled();
+  });
+
+  test('Rejecting a future-dated token', () => {
+    const { mockNext, mockReply } = runHook({
+      encryptionKey: 'foo',
+      maxTokenAgeMs: 30000,
+      allowedClockSkewMs: 1000,
+      now: () => now,
+    }, now + 1001);
+    expect(mockReply.code).toBeCalledWith(401);
+    expect(mockNext).not.toBeCalled();
+  });
+
+  test('Not calling `shouldAcceptToken` for stale tokens', () => {
+    const shouldAcceptToken = jest.fn(() => true);
+    runHook({ encryptionKey: 'foo', maxTokenAgeMs: 30000, now: () => now, shouldAcceptToken }, now - 60000);
+    expect(shouldAcceptToken).not.toBeCalled();
+  });
+
+  test('Not allowing a replay window shorter than the token lifetime', () => {
+    const config: TruesignHookConfig = {
+      encryptionKey: 'foo',
+      maxTokenAgeMs: 30000,
+      allowedClockSkewMs: 5000,
+      replayProtection: { windowMs: 30000 },
+    };
+    expect(() => getTruesignHook(config))
+      .toThrow('`replayProtection.windowMs` must be at least `maxTokenAgeMs` + `allowedClockSkewMs`');
+  });
+});
+
+describe('Policies as `shouldAcceptToken`', () => {
+  test('Rejecting tokens that fail the policy', () => {
+    const config: TruesignHookConfig = {
+      encryptionKey: 'foo',
+      shouldAcceptToken: createTruesignPolicy({ maxBot: 0 }),
+      decryptFunction: () => ({ bot: 9 } as unknown as DecryptedToken),
+    };
+    const mockNext = jest.fn();
+    const mockReply = makeMockFastifyReply();
+
+    getTruesignHook(config)(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), mockReply, mockNext);
+    expect(mockReply.code).toBeCalledWith(401);
+    expect(mockNext).not.toBeCalled();
+  });
+});
+
+describe('`decryptTruesignToken`', () => {
+  const encryptionKey = '0123456789abcdef0123456789abcdef';
+  const payload = {
+    bot: 0,
+    anonymizer: 0,
+    clusterId: 0,
+    requestId: 1,
+    timestamp: 1700000000000,
+    country: 'ES',
+    ipv4: '203.0.113.7',
+  };
+
+  function encrypt(plainText: string): string {
+    const iv = 'abcdefghijklmnop';
+    const cipher = crypto.createCipheriv('aes-256-cbc', encryptionKey, iv);
+    return iv + cipher.update(plainText, 'utf8', 'base64') + cipher.final('base64');
+  }
+
+  let spyConsoleWarn: jest.SpyInstance;
+  beforeEach(() => {
+    spyConsoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => { });
+  });
+  afterEach(() => {
+    spyConsoleWarn.mockRestore();
+  });
+
+  test('Decrypting a valid token', () => {
+    expect(decryptTruesignToken(encryptionKey, encrypt(JSON.stringify(payload)))).toEqual(payload);
+  });
+
+  test('Returning `null` for a payload that fails validation', () => {
+    const token = encrypt(JSON.stringify({ ...payload, timestamp: String(payload.timestamp) }));
+    expect(decryptTruesignToken(encryptionKey, token)).toBeNull();
+    expect(spyConsoleWarn).toBeCalledWith('Error decrypting Truesign token', {
+      reason: 'invalid_payload',
+      detail: '`timestamp` must be a Unix epoch in milliseconds',
+    });
+  });
+
+  test('Returning `null` when decryption fails', () => {
+    expect(decryptTruesignToken(encryptionKey, 'abcdefghijklmnopnot-base64')).toBeNull();
+    expect(decryptTruesignToken(encryptionKey, 'short')).toBeNull();
+  });
+
+  test('Decrypting unpadded and base64url tokens', () => {
+    const token = encrypt(JSON.stringify(payload));
+    const base64UrlToken = token.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+    expect(decryptTruesignToken(encryptionKey, base64UrlToken)).toEqual(payload);
+  });
+
+  test('Returning `null` for keys of the wrong length', () => {
+    expect(decryptTruesignToken('foo', encrypt(JSON.stringify(payload)))).toBeNull();
+    expect(decryptTruesignTokenDetailed('foo', encrypt(JSON.stringify(payload)))).toMatchObject({
+      ok: false,
+      rejection: { reason: 'decrypt_failed', detail: '`encryptionKey` must be 32 bytes long, got 3' },
+    });
+    expect(decryptTruesignTokenDetailed([{ id: 'short', key: 'foo' }, { id: 'current', key: encryptionKey }],
+      encrypt(JSON.stringify(payload)))).toMatchObject({ ok: true, keyId: 'current' });
+  });
+
+  test('Telling decryption failures apart from invalid payloads', () => {
+    expect(decryptTruesignTokenDetailed(encryptionKey, 'short')).toEqual({
+      ok: false,
+      rejection: { reason: 'decrypt_failed', detail: 'Token is shorter than the IV' },
+    });
+    expect(decryptTruesignTokenDetailed(encryptionKey, encrypt('not json'))).toMatchObject({
+      ok: false,
+      rejection: { reason: 'decrypt_failed' },
+    });
+    expect(decryptTruesignTokenDetailed(encryptionKey, encrypt(JSON.stringify({ ...payload, bot: 10 })))).toEqual({
+      ok: false,
+      rejection: { reason: 'invalid_payload', detail: '`bot` must be an integer between 0 and 9' },
+    });
+    expect(decryptTruesignTokenDetailed(encryptionKey, encrypt(JSON.stringify(payload)))).toEqual({
+      ok: true,
+      token: payload,
+      keyId: null,
+    });
+  });
+
+  test('Trying the keys of a keyring in order', () => {
+    const token = encrypt(JSON.stringify(payload));
+    const oldKey = { id: 'old', key: 'fedcba9876543210fedcba9876543210' };
+    const currentKey = { id: 'current', key: encryptionKey };
+
+    expect(decryptTruesignTokenDetailed([oldKey, currentKey], token)).toEqual({ ok: true, token: payload, keyId: 'current' });
+    expect(decryptTruesignToken([currentKey, oldKey], token)).toEqual(payload);
+    expect(decryptTruesignTokenDetailed([oldKey], token)).toMatchObject({ ok: false, rejection: { reason: 'decrypt_failed' } });
+  });
+
+  test('Skipping keys past their `notAfter` date', () => {
+    const token = encrypt(JSON.stringify(payload));
+    const keyring = [{ id: 'current', key: encryptionKey, notAfter: new Date(2000) }];
+
+    expect(decryptTruesignTokenDetailed(keyring, token, { now: () => 1999 })).toMatchObject({ ok: true, keyId: 'current' });
+    expect(decryptTruesignTokenDetailed(keyring, token, { now: () => 2000 })).toEqual({
+      ok: false,
+      rejection: { reason: 'decrypt_failed', detail: 'No active encryption key' },
+    });
+  });
+});
+
+describe('Rejection reasons', () => {
+  function getRejection(config: TruesignHookConfig, request: FastifyRequest): TruesignRejection {
+    const onReject = jest.fn();
+    getTruesignHook({ ...config, onReject })(request, makeMockFastifyReply(), jest.fn());
+    expect(onReject).toBeCalledTimes(1);
+    return onReject.mock.calls[0][0];
+  }
+
+  const withToken = makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } });
+
+  test('`missing_token`', () => {
+    expect(getRejection({ encryptionKey: ENCRYPTION_KEY }, makeMockFastifyRequest())).toEqual({ reason: 'missing_token' });
+  });
+
+  test('`decrypt_failed`', () => {
+    const spyConsoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => { });
+    expect(getRejection({ encryptionKey: ENCRYPTION_KEY }, withToken))
+      .toEqual({ reason: 'decrypt_failed', detail: 'Token is shorter than the IV' });
+    expect(getRejection({ encryptionKey: 'foo', decryptFunction: () => null }, withToken))
+      .toEqual({ reason: 'decrypt_failed', detail: '`decryptFunction` returned null' });
+    spyConsoleWarn.mockRestore();
+  });
+
+  test('`token_expired` and `token_not_yet_valid`', () => {
+    const config: TruesignHookConfig = { encryptionKey: 'foo', maxTokenAgeMs: 1000, allowedClockSkewMs: 0, now: () => 5000 };
+    expect(getRejection({ ...config, decryptFunction: () => ({ timestamp: 0 } as DecryptedToken) }, withToken))
+      .toEqual({ reason: 'token_expired' });
+    expect(getRejection({ ...config, decryptFunction: () => ({ timestamp: 9000 } as DecryptedToken) }, withToken))
+      .toEqual({ reason: 'token_not_yet_valid' });
+  });
+
+  test('`policy_rejected:<rule>`', () => {
+    const decryptFunction = () => ({ bot: 9, clusterId: 3 } as DecryptedToken);
+    expect(getRejection({ encryptionKey: 'foo', decryptFunction, shouldAcceptToken: () => false }, withToken))
+      .toEqual({ reason: 'policy_rejected:shouldAcceptToken' });
+    expect(getRejection({
+      encryptionKey: 'foo',
+      decryptFunction,
+      shouldAcceptToken: createTruesignPolicy({ rejectClusters: true }),
+    }, withToken)).toEqual({ reason: 'policy_rejected:rejectClusters' });
+  });
+
+  test('`internal_error`', () => {
+    const spyConsoleError = jest.spyOn(console, 'error').mockImplementation(() => { });
+    const rejection = getRejection({ encryptionKey: ENCRYPTION_KEY }, makeMockFastifyRequest({ query: null }));
+    expect(rejection.reason).toBe('internal_error');
+    expect(rejection.error).toEqual(new Error('`req.query` is not a record'));
+    spyConsoleError.mockRestore();
+  });
+});
+
+describe('`onReject`', () => {
+  test('Choosing the status code and body', () => {
+    const config: TruesignHookConfig = {
+      encryptionKey: ENCRYPTION_KEY,
+      onReject: (rejection, _req, reply) => {
+        reply.code(403).send({ error: rejection.reason });
+      },
+    };
+    const mockNext = jest.fn();
+    const mockReply = makeMockFastifyReply();
+
+    getTruesignHook(config)(makeMockFastifyRequest(), mockReply, mockNext);
+    expect(mockReply.code).toBeCalledWith(403);
+    expect(mockReply.send).toBeCalledWith({ error: 'missing_token' });
+    expect(mockNext).not.toBeCalled();
+  });
+
+  test('Falling back to 401 if `onReject` throws', () => {
+    const spyConsoleError = jest.spyOn(console, 'error').mockImplementation(() => { });
+    const config: TruesignHookConfig = {
+      encryptionKey: ENCRYPTION_KEY,
+      onReject: () => {
+        throw new Error('Oops');
+      },
+    };
+    const mockReply = makeMockFastifyReply();
+
+    getTruesignHook(config)(makeMockFastifyRequest(), mockReply, jest.fn());
+    expect(mockReply.code).toBeCalledWith(401);
+    spyConsoleError.mockRestore();
+  });
+
+  test('Falling back to 401 if an async `onReject` rejects', async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const config: TruesignHookConfig = {
+      encryptionKey: ENCRYPTION_KEY,
+      logger,
+      onReject: async () => {
+        throw new Error('Oops');
+      },
+    };
+    const mockReply = makeMockFastifyReply();
+
+    getTruesignHook(config)(makeMockFastifyRequest(), mockReply, jest.fn());
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(mockReply.code).toBeCalledWith(401);
+    expect(mockReply.send).toBeCalledTimes(1);
+    expect(logger.error).toBeCalledWith({ err: new Error('Oops') }, 'Error in Truesign `onReject`');
+  });
+});
+
+describe('Async callbacks', () => {
+  const decryptedToken = { bot: 0 } as DecryptedToken;
+
+  async function runHook(config: TruesignHookConfig) {
+    const mockNext = jest.fn();
+    const mockReply = makeMockFastifyReply();
+    const mockRequest = makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } });
+
+    getTruesignHook(config)(mockRequest, mockReply, mockNext);
+    await new Promise((resolve) => setImmediate(resolve));
+    return { mockNext, mockReply, mockRequest };
+  }
+
+  test('Accepting with every callback async', async () => {
+    const { mockNext, mockReply, mockRequest } = await runHook({
+      encryptionKey: 'foo',
+      extractToken: async () => 'jarl',
+      decryptFunction: async () => decryptedToken,
+      shouldAcceptToken: async () => true,
+    });
+    expect(mockReply.code).not.toBeCalled();
+    expect(mockNext).toBeCalledWith();
+    expect((mockRequest as unknown as Record<string, unknown>)['ts-token']).toBe(decryptedToken);
+  });
+
+  test('Mixing sync and async callbacks', async () => {
+    const shouldAcceptToken = jest.fn(async () => false);
+    const { mockNext, mockReply } = await runHook({
+      encryptionKey: 'foo',
+      decryptFunction: () => decryptedToken,
+      shouldAcceptToken,
+    });
+    expect(shouldAcceptToken).toBeCalledWith(decryptedToken, expect.objectContaining({ encryptionKey: 'foo' }));
+    expect(mockReply.code).toBeCalledWith(401);
+    expect(mockNext).not.toBeCalled();
+  });
+
+  test('Rejecting when an async decrypt function resolves to `null`', async () => {
+    const spyConsoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => { });
+    const onReject = jest.fn();
+    await runHook({ encryptionKey: 'foo', decryptFunction: async () => null, onReject });
+    expect(onReject.mock.calls[0][0]).toEqual({ reason: 'decrypt_failed', detail: '`decryptFunction` returned null' });
+    spyConsoleWarn.mockRestore();
+  });
+
+  test('Mapping async errors to `internal_error`', async () => {
+    const spyConsoleError = jest.spyOn(console, 'error').mockImplementation(() => { });
+    const onReject = jest.fn();
+    const { mockNext } = await runHook({
+      encryptionKey: 'foo',
+      decryptFunction: () => decryptedToken,
+      shouldAcceptToken: () => Promise.reject(new Error('User service down')),
+      onReject,
+    });
+    expect(onReject.mock.calls[0][0]).toEqual({ reason: 'internal_error', error: new Error('User service down') });
+    expect(mockNext).not.toBeCalled();
+    spyConsoleError.mockRestore();
+  });
+
+  test('Staying synchronous when every callback is sync', () => {
+    const mockNext = jest.fn();
+    getTruesignHook({ encryptionKey: 'foo', decryptFunction: () => decryptedToken })(
+      makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }),
+      makeMockFastifyReply(),
+      mockNext,
+    );
+    expect(mockNext).toBeCalledWith();
+  });
+});
+
+describe('`getAsyncTruesignHook`', () => {
+  test('Resolving without sending a reply when the token is accepted', async () => {
+    const decryptedToken = { bot: 0 } as DecryptedToken;
+    const mockReply = makeMockFastifyReply();
+    const mockRequest = makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } });
+
+    const hook = getAsyncTruesignHook({ encryptionKey: 'foo', decryptFunction: async () => decryptedToken });
+    await expect(hook(mockRequest, mockReply)).resolves.toBeUndefined();
+    expect(mockReply.code).not.toBeCalled();
+    expect((mockRequest as unknown as Record<string, unknown>)['ts-token']).toBe(decryptedToken);
+  });
+
+  test('Resolving with the reply once the rejection is sent', async () => {
+    const mockReply = makeMockFastifyReply();
+
+    const hook = getAsyncTruesignHook({ encryptionKey: ENCRYPTION_KEY, shouldAcceptToken: () => false });
+    await expect(hook(makeMockFastifyRequest(), mockReply)).resolves.toBe(mockReply);
+    expect(mockReply.code).toBeCalledWith(401);
+  });
+
+  test('Letting everything through with `allowUnauthenticated`', async () => {
+    const mockReply = makeMockFastifyReply();
+
+    const hook = getAsyncTruesignHook({ encryptionKey: '', allowUnauthenticated: true });
+    await expect(hook(makeMockFastifyRequest(), mockReply)).resolves.toBeUndefined();
+    expect(mockReply.code).not.toBeCalled();
+  });
+});
+
+describe('Encryption key format', () => {
+  test('Not allowing keys that are not 32 bytes long', () => {
+    expect(() => getTruesignHook({ encryptionKey: 'foo' })).toThrow('`encryptionKey` must be 32 bytes long, got 3');
+    expect(() => getTruesignHook({ encryptionKeys: [{ id: 'old', key: ENCRYPTION_KEY }, { id: 'new', key: 'foo' }] }))
+      .toThrow('`encryptionKeys.new` must be 32 bytes long, got 3');
+  });
+
+  test('Decoding hex and base64 keys', () => {
+    const key = crypto.randomBytes(32);
+    const token = createTruesignToken(key.toString('hex'), humanToken(), { encoding: 'hex' });
+    const config: TruesignHookConfig = {
+      encryptionKeys: [
+        { id: 'hex', key: key.toString('hex'), encoding: 'hex', notAfter: 1000 },
+        { id: 'base64', key: key.toString('base64'), encoding: 'base64' },
+      ],
+      now: () => 2000,
+    };
+    const mockNext = jest.fn();
+    const mockRequest = makeMockFastifyRequest({ query: { 'ts-token': token } });
+
+    getTruesignHook(config)(mockRequest, makeMockFastifyReply(), mockNext);
+
+    expect(mockNext).toBeCalled();
+    expect((mockRequest as unknown as Record<string, unknown>)['ts-token-info']).toMatchObject({ keyId: 'base64' });
+  });
+
+  test('Not checking the key format with a `decryptFunction`', () => {
+    expect(() => getTruesignHook({ encryptionKey: 'foo', decryptFunction: () => null })).not.toThrow();
+  });
+});
+
+describe('`encryptionKeys`', () => {
+  const decryptedToken = { bot: 0 } as DecryptedToken;
+
+  test('Not allowing `encryptionKey` and `encryptionKeys` together', () => {
+    const config: TruesignHookConfig = { encryptionKey: 'foo', encryptionKeys: [{ id: 'a', key: 'bar' }] };
+    expect(() => getTruesignHook(config)).toThrow('`encryptionKey` and `encryptionKeys` can\'t be used together');
+  });
+
+  test('Not allowing an invalid keyring', () => {
+    expect(() => getTruesignHook({ encryptionKeys: [] })).toThrow('`encryptionKeys` must contain at least one key');
+  });
+
+  test('Injecting the id of the key that decrypted the token', () => {
+    const decryptFunction = jest.fn((encryptionKey: string) => (encryptionKey === 'new-key' ? decryptedToken : null));
+    const config: TruesignHookConfig = {
+      encryptionKeys: [
+        { id: 'old', key: 'old-key', notAfter: 2000 },
+        { id: 'new', key: 'new-key' },
+      ],
+      decryptFunction,
+      now: () => 1000,
+    };
+    const mockNext = jest.fn();
+    const mockRequest = makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } });
+
+    getTruesignHook(config)(mockRequest, makeMockFastifyReply(), mockNext);
+
+    expect(decryptFunction.mock.calls).toEqual([['old-key', 'jarl'], ['new-key', 'jarl']]);
+    expect(mockNext).toBeCalledWith();
+    expect((mockRequest as unknown as Record<string, unknown>)['ts-token-info']).toEqual({ keyId: 'new', emailTypo: null, risk: null, bypass: null, session: null, rejection: null });
+  });
+
+  test('Rejecting tokens of a key past its `notAfter` date', () => {
+    const spyConsoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => { });
+    const decryptFunction = jest.fn((encryptionKey: string) => (encryptionKey === 'old-key' ? decryptedToken : null));
+    const onReject = jest.fn();
+    const config: TruesignHookConfig = {
+      encryptionKeys: [
+        { id: 'new', key: 'new-key' },
+        { id: 'old', key: 'old-key', notAfter: 2000 },
+      ],
+      decryptFunction,
+      onReject,
+      now: () => 3000,
+    };
+
+    getTruesignHook(config)(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply(), jest.fn());
+
+    expect(decryptFunction).toBeCalledTimes(1);
+    expect(onReject.mock.calls[0][0]).toEqual({ reason: 'decrypt_failed', detail: '`decryptFunction` returned null' });
+    spyConsoleWarn.mockRestore();
+  });
+});
+
+describe('`ipBinding`', () => {
+  test('Rejecting tokens presented from another IP', () => {
+    const onReject = jest.fn();
+    const config: TruesignHookConfig = {
+      encryptionKey: 'foo',
+      decryptFunction: () => ({ ipv4: '203.0.113.7' } as DecryptedToken),
+      ipBinding: {},
+      onReject,
+    };
+    const mockNext = jest.fn();
+    const hook = getTruesignHook(config);
+
+    hook({ ...makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), ip: '203.0.113.7' }, makeMockFastifyReply(), mockNext);
+    expect(mockNext).toBeCalledWith();
+
+    hook({ ...makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), ip: '198.51.100.1' }, makeMockFastifyReply(), mockNext);
+    expect(onReject.mock.calls[0][0]).toEqual({ reason: 'ip_mismatch', detail: 'The token was created for a different IP' });
+  });
+});
+
+describe('`metaBinding`', () => {
+  test('Rejecting tokens whose meta is not bound to the request', () => {
+    const sessionMeta = createTruesignMeta('secret', 'session-1');
+    const onReject = jest.fn();
+    const config: TruesignHookConfig = {
+      encryptionKey: 'foo',
+      decryptFunction: () => ({ meta: sessionMeta } as DecryptedToken),
+      metaBinding: {
+        getExpectedMeta: (req) => createTruesignMeta('secret', req.headers['x-session-id'] as string),
+      },
+      onReject,
+    };
+    const mockNext = jest.fn();
+    const hook = getTruesignHook(config);
+
+    hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' }, headers: { 'x-session-id': 'session-1' } }), makeMockFastifyReply(), mockNext);
+    expect(mockNext).toBeCalledWith();
+
+    hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' }, headers: { 'x-session-id': 'session-2' } }), makeMockFastifyReply(), mockNext);
+    expect(onReject.mock.calls[0][0]).toEqual({ reason: 'meta_mismatch', detail: 'The token meta doesn\'t match' });
+    expect(mockNext).toBeCalledTimes(1);
+  });
+});
+
+describe('`emailBinding`', () => {
+  const decryptedToken = {
+    email: 'jane@gmai.com',
+    disposable: false,
+    notDeliverable: true,
+    typo: 'gmail.com',
+  } as DecryptedToken;
+
+  test('Rejecting a token verified for another email', () => {
+    const onReject = jest.fn();
+    const config: TruesignHookConfig = { encryptionKey: 'foo', decryptFunction: () => decryptedToken, emailBinding: {}, onReject };
+
+    getTruesignHook(config)(
+      { ...makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), body: { email: 'john@gmai.com' } },
+      makeMockFastifyReply(),
+      jest.fn(),
+    );
+    expect(onReject.mock.calls[0][0]).toMatchObject({ reason: 'email_mismatch' });
+  });
+
+  test('Exposing the typo suggestion on acceptance and rejection', () => {
+    const onReject = jest.fn();
+    const mockRequest = { ...makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), body: { email: 'jane@gmai.com' } };
+
+    getTruesignHook({ encryptionKey: 'foo', decryptFunction: () => decryptedToken, emailBinding: {} })(
+      mockRequest,
+      makeMockFastifyReply(),
+      jest.fn(),
+    );
+    expect((mockRequest as unknown as Record<string, unknown>)['ts-token-info']).toMatchObject({
+      emailTypo: { domain: 'gmail.com', email: 'jane@gmail.com' },
+    });
+
+    getTruesignHook({
+      encryptionKey: 'foo',
+      decryptFunction: () => decryptedToken,
+      shouldAcceptToken: createTruesignPolicy({ rejectNotDeliverableEmail: true }),
+      onReject,
+    })(mockRequest, makeMockFastifyReply(), jest.fn());
+    expect(onReject.mock.calls[0][0]).toEqual({
+      reason: 'policy_rejected:rejectNotDeliverableEmail',
+      emailTypo: { domain: 'gmail.com', email: 'jane@gmail.com' },
+    });
+  });
+});
+
+describe('Logging and lifecycle events', () => {
+  function makeMockLogger(): { [Level in keyof TruesignLogger]: jest.Mock } {
+    return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  }
+
+  const withToken = makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } });
+
+  test('Logging each decision with its level, without the token', () => {
+    const logger = makeMockLogger();
+    const decryptFunction = (_key: string, token: string) => (token === 'jarl' ? { requestId: 'r1' } as unknown as DecryptedToken : null);
+    const hook = getTruesignHook({ encryptionKey: 'foo', decryptFunction, logger });
+
+    hook(withToken, makeMockFastifyReply(), jest.fn());
+    hook(makeMockFastifyRequest({ query: { 'ts-token': 'fistro' } }), makeMockFastifyReply(), jest.fn());
+    hook(makeMockFastifyRequest(), makeMockFastifyReply(), jest.fn());
+
+    expect(logger.debug).toBeCalledWith({ truesign: { requestId: 'r1', keyId: null } }, 'Truesign token accepted');
+    expect(logger.warn).toBeCalledWith({
+      truesign: { reason: 'decrypt_failed', detail: '`decryptFunction` returned null', err: undefined },
+    }, 'Truesign token rejected');
+    expect(logger.info).toBeCalledWith({
+      truesign: { reason: 'missing_token', detail: undefined, err: undefined },
+    }, 'Truesign token rejected');
+    expect(JSON.stringify(logger.warn.mock.calls)).not.toContain('fistro');
+  });
+
+  test('Using the request logger by default', () => {
+    const logger = makeMockLogger();
+    const mockRequest = { ...makeMockFastifyRequest(), log: logger };
+
+    getTruesignHook({ encryptionKey: ENCRYPTION_KEY })(mockRequest, makeMockFastifyReply(), jest.fn());
+    expect(logger.info).toBeCalledTimes(1);
+  });
+
+  test('Sampling logs per rejection reason', () => {
+    const logger = makeMockLogger();
+    let now = 0;
+    const hook = getTruesignHook({
+      encryptionKey: ENCRYPTION_KEY,
+      logger,
+      logSampling: { maxPerInterval: 1, intervalMs: 1000, now: () => now },
+    });
+
+    hook(makeMockFastifyRequest(), makeMockFastifyReply(), jest.fn());
+    hook(makeMockFastifyRequest(), makeMockFastifyReply(), jest.fn());
+    hook(makeMockFastifyRequest(), makeMockFastifyReply(), jest.fn());
+    expect(logger.info).toBeCalledTimes(1);
+
+    now = 1000;
+    hook(makeMockFastifyRequest(), makeMockFastifyReply(), jest.fn());
+    expect(logger.info).toBeCalledTimes(2);
+    expect(logger.info.mock.calls[1][0]).toMatchObject({ suppressed: 2 });
+  });
+
+  test('Calling lifecycle events', () => {
+    const events = {
+      onTokenMissing: jest.fn(),
+      onDecryptFailure: jest.fn(),
+      onAccepted: jest.fn(),
+      onRejected: jest.fn(),
+    };
+    const decryptFunction = (_key: string, token: string) => (token === 'jarl' ? {} as DecryptedToken : null);
+    const hook = getTruesignHook({ encryptionKey: 'foo', decryptFunction, events, logger: makeMockLogger() });
+
+    hook(makeMockFastifyRequest(), makeMockFastifyReply(), jest.fn());
+    expect(events.onTokenMissing).toBeCalledWith(expect.objectContaining({ rejection: { reason: 'missing_token' } }));
+
+    hook(makeMockFastifyRequest({ query: { 'ts-token': 'fistro' } }), makeMockFastifyReply(), jest.fn());
+    expect(events.onDecryptFailure).toBeCalledTimes(1);
+    expect(events.onRejected).toBeCalledTimes(2);
+
+    hook(withToken, makeMockFastifyReply(), jest.fn());
+    expect(events.onAccepted).toBeCalledWith({ req: withToken, token: {}, info: { keyId: null, emailTypo: null, risk: null, bypass: null, session: null, rejection: null } });
+  });
+
+  test('Not breaking the request when an event handler throws', () => {
+    const logger = makeMockLogger();
+    const mockNext = jest.fn();
+    const onAccepted = () => {
+      throw new Error('Oops');
+    };
+
+    getTruesignHook({ encryptionKey: 'foo', decryptFunction: () => ({} as DecryptedToken), events: { onAccepted }, logger })(
+      withToken,
+      makeMockFastifyReply(),
+      mockNext,
+    );
+    expect(mockNext).toBeCalledTimes(1);
+    expect(logger.error).toBeCalledWith({ err: new Error('Oops') }, 'Error in Truesign event handler');
+  });
+});
+
+describe('`mode`', () => {
+  const withToken = () => makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } });
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+  test('Not allowing invalid modes nor `allowUnauthenticated` at the same time', () => {
+    expect(() => getTruesignHook({ encryptionKey: 'foo', mode: 'shadow' as 'report' }))
+      .toThrow('`mode` must be `enforce`, `report` or `off`');
+    expect(() => getTruesignHook({ encryptionKey: 'foo', mode: 'report', allowUnauthenticated: false }))
+      .toThrow('`allowUnauthenticated` and `mode` can\'t be used together');
+    expect(() => getTruesignHook({ encryptionKey: '', mode: 'report' }))
+      .toThrow('`encryptionKey` is required unless `mode` is `off`');
+    expect(() => getTruesignHook({ encryptionKey: '', mode: 'off' })).not.toThrow();
+  });
+
+  test('Letting rejected requests through in `report` mode, with the would-be decision', () => {
+    const onReject = jest.fn();
+    const onRejected = jest.fn();
+    const mockNext = jest.fn();
+    const mockRequest = withToken();
+    const decryptedToken = { bot: 9 } as DecryptedToken;
+
+    getTruesignHook({
+      encryptionKey: 'foo',
+      mode: 'report',
+      decryptFunction: () => decryptedToken,
+      shouldAcceptToken: createTruesignPolicy({ maxBot: 5 }),
+      onReject,
+      events: { onRejected },
+      logger,
+    })(mockRequest, makeMockFastifyReply(), mockNext);
+
+    expect(mockNext).toBeCalledTimes(1);
+    expect(onReject).not.toBeCalled();
+    expect(onRejected).toBeCalledWith(expect.objectContaining({ enforced: false }));
+    expect((mockRequest as unknown as Record<string, unknown>)['ts-token']).toBe(decryptedToken);
+    expect((mockRequest as unknown as Record<string, unknown>)['ts-token-info']).toEqual({
+      keyId: null,
+      emailTypo: null,
+      risk: null,
+      bypass: null,
+      session: null,
+      rejection: { reason: 'policy_rejected:maxBot' },
+    });
+  });
+
+  test('Injecting a `null` token in `report` mode when there is none', async () => {
+    const mockRequest = makeMockFastifyRequest();
+
+    await expect(getAsyncTruesignHook({ encryptionKey: ENCRYPTION_KEY, mode: 'report', logger })(mockRequest, makeMockFastifyReply()))
+      .resolves.toBeUndefined();
+    expect((mockRequest as unknown as Record<string, unknown>)['ts-token']).toBeNull();
+    expect((mockRequest as unknown as Record<string, unknown>)['ts-token-info']).toEqual({
+      keyId: null,
+      emailTypo: null,
+      risk: null,
+      bypass: null,
+      session: null,
+      rejection: { reason: 'missing_token' },
+    });
+  });
+
+  test('Skipping the checks in `off` mode', () => {
+    const decryptFunction = jest.fn();
+    const mockNext = jest.fn();
+
+    getTruesignHook({ encryptionKey: 'foo', mode: 'off', decryptFunction })(withToken(), makeMockFastifyReply(), mockNext);
+    expect(mockNext).toBeCalledTimes(1);
+    expect(decryptFunction).not.toBeCalled();
+  });
+});
+
+describe('Route overrides', () => {
+  const withRouteConfig = (config: unknown): FastifyReply => ({ ...makeMockFastifyReply(), context: { config } });
+
+  test('Using the config of the route', () => {
+    const decryptFunction = () => ({ bot: 7 } as DecryptedToken);
+    const hook = getTruesignHook({ encryptionKey: 'foo', decryptFunction });
+    const signupConfig = { url: '/signup', truesign: { policy: createTruesignPolicy({ maxBot: 5 }) } };
+    const healthConfig = { url: '/health', truesign: { required: false } };
+    const mockNext = jest.fn();
+
+    hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), withRouteConfig({ url: '/' }), mockNext);
+    expect(mockNext).toBeCalledTimes(1);
+
+    const signupReply = withRouteConfig(signupConfig);
+    hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), signupReply, mockNext);
+    expect(mockNext).toBeCalledTimes(1);
+    expect(signupReply.code).toBeCalledWith(401);
+
+    hook(makeMockFastifyRequest(), withRouteConfig(healthConfig), mockNext);
+    expect(mockNext).toBeCalledTimes(2);
+  });
+
+  test('Building the hook of each route once, when it is registered', () => {
+    const extractToken = jest.fn(() => 'jarl');
+    const hook = getTruesignHook({ encryptionKey: 'foo', decryptFunction: () => ({} as DecryptedToken) });
+    const routeConfig = { truesign: { extractToken, injectInto: 'token' } };
+
+    hook.onRoute({ config: routeConfig });
+    const mockRequest = makeMockFastifyRequest();
+    hook(mockRequest, withRouteConfig({ ...routeConfig }), jest.fn());
+
+    expect(extractToken).toBeCalledTimes(1);
+    expect((mockRequest as unknown as Record<string, unknown>).token).toEqual({});
+    expect(() => hook.onRoute({ config: { truesign: { encryptionKey: '', mode: 'report' } } }))
+      .toThrow('`encryptionKey` is required unless `mode` is `off`');
+  });
+
+  test('Rejecting the requests to a route with invalid overrides when `onRoute` is not added', () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const onReject = jest.fn();
+    const hook = getTruesignHook({ encryptionKey: ENCRYPTION_KEY, logger, onReject });
+    const routeConfig = { truesign: { mode: 'shadow' } };
+    const mockNext = jest.fn();
+
+    hook(makeMockFastifyRequest(), withRouteConfig(routeConfig), mockNext);
+    hook(makeMockFastifyRequest(), withRouteConfig(routeConfig), mockNext);
+
+    const error = new Error('`mode` must be `enforce`, `report` or `off`');
+    expect(mockNext).not.toBeCalled();
+    expect(onReject).toBeCalledTimes(2);
+    expect(onReject.mock.calls[0][0]).toEqual({ reason: 'internal_error', detail: 'Invalid route config', error });
+    // The failure is cached, so the route config isn't built again
+    expect(onReject.mock.calls[1][0].error).toBe(onReject.mock.calls[0][0].error);
+    expect(logger.error).toBeCalledWith({ err: error }, 'Invalid Truesign config of the route');
+
+    const mockReply = withRouteConfig(routeConfig);
+    getTruesignHook({ encryptionKey: ENCRYPTION_KEY, logger })(makeMockFastifyRequest(), mockReply, mockNext);
+    expect(mockReply.code).toBeCalledWith(401);
+    expect(mockReply.send).toBeCalledWith();
+  });
+
+  test('Sharing the replay store between routes', async () => {
+    const decryptFunction = () => ({ requestId: 1 } as DecryptedToken);
+    const hook = getAsyncTruesignHook({ encryptionKey: 'foo', decryptFunction, replayProtection: { windowMs: 1000 } });
+    const mockReply = withRouteConfig({ truesign: { policy: () => true } });
+
+    await hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply());
+    await hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), mockReply);
+    expect(mockReply.code).toBeCalledWith(401);
+  });
+});
+
+describe('`rateLimit`', () => {
+  test('Replying 429 with `Retry-After` once the limit is exceeded', async () => {
+    const decryptFunction = () => ({ clusterId: 7 } as DecryptedToken);
+    let now = 0;
+    const hook = getAsyncTruesignHook({
+      encryptionKey: 'foo',
+      decryptFunction,
+      rateLimit: {
+        rules: [{ key: 'clusterId', limit: 1, windowMs: 60000 }],
+        store: createMemoryRateLimitStore({ now: () => now }),
+      },
+    });
+
+    await expect(hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply()))
+      .resolves.toBeUndefined();
+
+    now = 1500;
+    const mockReply = makeMockFastifyReply();
+    await hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), mockReply);
+    expect(mockReply.code).toBeCalledWith(429);
+    expect(mockReply.header).toBeCalledWith('Retry-After', '59');
+  });
+
+  test('Exposing the exceeded rule in the rejection', async () => {
+    const onReject = jest.fn();
+    const hook = getAsyncTruesignHook({
+      encryptionKey: 'foo',
+      decryptFunction: () => ({ country: 'ES' } as DecryptedToken),
+      rateLimit: { rules: [{ key: 'country', algorithm: 'token-bucket', limit: 1, windowMs: 1000 }] },
+      onReject,
+    });
+
+    await hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply());
+    await hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply());
+    expect(onReject.mock.calls[0][0]).toMatchObject({ reason: 'rate_limited', detail: 'Rate limit `country` exceeded' });
+  });
+
+  test('Accepting a rate limited token again after `Retry-After` with `replayProtection`', async () => {
+    const requestIds = [1, 2, 2, 2];
+    const decryptFunction = () => ({ requestId: requestIds.shift(), clusterId: 7 } as DecryptedToken);
+    const onReject = jest.fn();
+    let now = 0;
+    const hook = getAsyncTruesignHook({
+      encryptionKey: 'foo',
+      decryptFunction,
+      replayProtection: { windowMs: 60000 },
+      rateLimit: {
+        rules: [{ key: 'clusterId', limit: 1, windowMs: 1000 }],
+        store: createMemoryRateLimitStore({ now: () => now }),
+      },
+      onReject,
+    });
+    const request = () => hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply());
+
+    await expect(request()).resolves.toBeUndefined();
+    await request();
+    expect(onReject.mock.calls[0][0]).toMatchObject({ reason: 'rate_limited', retryAfterMs: 1000 });
+
+    now = 2000;
+    await expect(request()).resolves.toBeUndefined();
+    now = 4000;
+    await request();
+    expect(onReject).toBeCalledTimes(2);
+    expect(onReject.mock.calls[1][0]).toEqual({ reason: 'token_replayed' });
+  });
+});
+
+describe('`cache`', () => {
+  test('Decrypting a token sent on several requests only once', () => {
+    const decryptFunction = jest.fn(() => ({ bot: 0 } as DecryptedToken));
+    const hook = getTruesignHook({ encryptionKey: 'foo', decryptFunction, cache: {} });
+
+    [1, 2, 3].forEach(() => {
+      const mockNext = jest.fn();
+      hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply(), mockNext);
+      expect(mockNext).toBeCalledWith();
+    });
+    hook(makeMockFastifyRequest({ query: { 'ts-token': 'fistro' } }), makeMockFastifyReply(), jest.fn());
+
+    expect(decryptFunction).toBeCalledTimes(2);
+  });
+
+  test('Still rejecting replayed tokens', async () => {
+    const decryptFunction = jest.fn(() => ({ requestId: 1 } as unknown as DecryptedToken));
+    const onReject = jest.fn();
+    const hook = getAsyncTruesignHook({
+      encryptionKey: 'foo',
+      decryptFunction,
+      replayProtection: { windowMs: 60000 },
+      cache: {},
+      onReject,
+    });
+
+    await hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply());
+    await hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply());
+
+    expect(decryptFunction).toBeCalledTimes(1);
+    expect(onReject).toBeCalledTimes(1);
+    expect(onReject.mock.calls[0][0]).toMatchObject({ reason: 'token_replayed' });
+  });
+
+  test('Caching the result of `shouldAcceptToken` only with `cacheDecision`', () => {
+    const shouldAcceptToken = jest.fn(() => true);
+    const requestTwice = (config: TruesignHookConfig) => {
+      const hook = getTruesignHook(config);
+      hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply(), jest.fn());
+      hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply(), jest.fn());
+    };
+    const config = { encryptionKey: 'foo', decryptFunction: () => ({ bot: 0 } as DecryptedToken), shouldAcceptToken };
+
+    requestTwice({ ...config, cache: {} });
+    expect(shouldAcceptToken).toBeCalledTimes(2);
+
+    shouldAcceptToken.mockClear();
+    requestTwice({ ...config, cache: { cacheDecision: true } });
+    expect(shouldAcceptToken).toBeCalledTimes(1);
+  });
+
+  test('Decrypting again the tokens of a key past its `notAfter` date', () => {
+    const spyConsoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => { });
+    let now = 1000;
+    const decryptFunction = jest.fn((encryptionKey: string) => (
+      encryptionKey === 'old-key' ? { bot: 0 } as DecryptedToken : null
+    ));
+    const onReject = jest.fn();
+    const hook = getTruesignHook({
+      encryptionKeys: [
+        { id: 'new', key: 'new-key' },
+        { id: 'old', key: 'old-key', notAfter: 2000 },
+      ],
+      decryptFunction,
+      onReject,
+      now: () => now,
+      cache: { now: () => now },
+    });
+
+    hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply(), jest.fn());
+    expect(onReject).not.toBeCalled();
+
+    now = 3000;
+    hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply(), jest.fn());
+    expect(onReject.mock.calls[0][0]).toMatchObject({ reason: 'decrypt_failed' });
+    spyConsoleWarn.mockRestore();
+  });
+});
+
+describe('`evaluateTruesignRequest`', () => {
+  test('Resolving the outcome without responding nor injecting', async () => {
+    const decryptFunction = (_key: string, token: string) => (token === 'jarl' ? { bot: 0 } as DecryptedToken : null);
+    const config: TruesignHookConfig = { encryptionKey: 'foo', decryptFunction, logSampling: false };
+    const mockRequest = makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } });
+
+    await expect(evaluateTruesignRequest(mockRequest, config)).resolves.toEqual({
+      proceed: true,
+      token: { bot: 0 },
+      info: { keyId: null, emailTypo: null, risk: null, bypass: null, session: null, rejection: null },
+    });
+    expect(mockRequest).not.toHaveProperty('ts-token');
+
+    await expect(evaluateTruesignRequest(makeMockFastifyRequest(), { ...config, mode: 'report' })).resolves.toEqual({
+      proceed: true,
+      token: null,
+      info: { keyId: null, emailTypo: null, risk: null, bypass: null, session: null, rejection: { reason: 'missing_token' } },
+    });
+  });
+
+  test('Sharing the stores of a config between calls', async () => {
+    const config: TruesignHookConfig = {
+      encryptionKey: 'foo',
+      decryptFunction: () => ({ requestId: 1 } as unknown as DecryptedToken),
+      replayProtection: { windowMs: 60000 },
+    };
+    const mockRequest = makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } });
+
+    await expect(evaluateTruesignRequest(mockRequest, config)).resolves.toMatchObject({ proceed: true });
+    await expect(evaluateTruesignRequest(mockRequest, config)).resolves.toEqual({
+      proceed: false,
+      rejection: { reason: 'token_replayed' },
+    });
+  });
+
+  test('Throwing if the config is not valid', () => {
+    expect(() => evaluateTruesignRequest(makeMockFastifyRequest(), {}))
+      .toThrow('`encryptionKey` is required when `allowUnauthenticated` is false');
+  });
+});
+
+describe('`risk`', () => {
+  test('Injecting the assessment of accepted tokens', () => {
+    const mockRequest = makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } });
+    const mockNext = jest.fn();
+
+    getTruesignHook({
+      encryptionKey: 'foo',
+      decryptFunction: () => ({ bot: 0, anonymizer: 9 } as DecryptedToken),
+      risk: {},
+    })(mockRequest, makeMockFastifyReply(), mockNext);
+
+    expect(mockNext).toBeCalledWith();
+    expect((mockRequest as unknown as Record<string, unknown>)['ts-token-info'])
+      .toMatchObject({ risk: { score: 20, tier: 'allow' } });
+  });
+
+  test('Sending the challenge response to challenged tokens', () => {
+    const mockReply = makeMockFastifyReply();
+
+    getTruesignHook({
+      encryptionKey: 'foo',
+      decryptFunction: () => ({ bot: 7, anonymizer: 0 } as DecryptedToken),
+      risk: { challengeResponse: { statusCode: 428, headers: { 'X-Captcha': 'required' } } },
+    })(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), mockReply, jest.fn());
+
+    expect(mockReply.code).toBeCalledWith(428);
+    expect(mockReply.header).toBeCalledWith('X-Captcha', 'required');
+  });
+
+  test('Rejecting blocked tokens', () => {
+    const onReject = jest.fn();
+
+    getTruesignHook({
+      encryptionKey: 'foo',
+      decryptFunction: () => ({ bot: 9, anonymizer: 0, clusterId: 42 } as DecryptedToken),
+      risk: {},
+      onReject,
+    })(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply(), jest.fn());
+
+    expect(onReject.mock.calls[0][0]).toEqual({
+      reason: 'risk_blocked',
+      detail: 'Risk score 90 is in the `block` tier',
+      risk: { score: 90, tier: 'block' },
+    });
+  });
+});
+
+describe('`audit`', () => {
+  test('Recording every decision', async () => {
+    const spyConsoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => { });
+    const write = jest.fn();
+    const decryptFunction = (_key: string, token: string) => (
+      token === 'jarl' ? { requestId: 1, bot: 0 } as DecryptedToken : null
+    );
+    const hook = getAsyncTruesignHook({ encryptionKey: ENCRYPTION_KEY, decryptFunction, audit: { sink: { write } } });
+
+    await hook(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply());
+    await hook(makeMockFastifyRequest({ query: { 'ts-token': 'fistro' } }), makeMockFastifyReply());
+    await getAsyncTruesignHook({ encryptionKey: ENCRYPTION_KEY, mode: 'report', audit: { sink: { write } } })(
+      makeMockFastifyRequest(),
+      makeMockFastifyReply(),
+    );
+
+    expect(write.mock.calls.map(([record]) => [record.outcome, record.reason, record.requestId])).toEqual([
+      ['accepted', null, 1],
+      ['rejected', 'decrypt_failed', null],
+      ['reported', 'missing_token', null],
+    ]);
+    spyConsoleWarn.mockRestore();
+  });
+
+  test('Ignoring errors of the sink', () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const mockNext = jest.fn();
+
+    getTruesignHook({
+      encryptionKey: 'foo',
+      decryptFunction: () => ({ bot: 0 } as DecryptedToken),
+      audit: { sink: { write: () => { throw new Error('Disk full'); } } },
+      logger,
+    })(makeMockFastifyRequest({ query: { 'ts-token': 'jarl' } }), makeMockFastifyReply(), mockNext);
+
+    expect(mockNext).toBeCalledWith();
+    expect(logger.error).toBeCalledWith({ err: new Error('Disk full') }, 'Error in Truesign audit sink');
+  });
+
+  test('Closing the sink with `onClose`', async () => {
+    const close = jest.fn(() => Promise.resolve());
+    const hook = getTruesignHook({ encryptionKey: ENCRYPTION_KEY, audit: { sink: { write: jest.fn(), close } } });
+
+    await new Promise<void>((resolve) => hook.onClose(null, resolve));
+    expect(close).toBeCalledTimes(1);
+  });
+
+  test('Closing the sinks of the route overrides too', async () => {
+    const close = jest.fn(() => Promise.resolve());
+    const routeClose = jest.fn(() => Promise.reject(new Error('disk full')));
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const sink = { write: jest.fn(), close };
+    const hook = getTruesignHook({ encryptionKey: ENCRYPTION_KEY, audit: { sink }, logger });
+
+    hook.onRoute({ config: { truesign: { required: false } } });
+    hook.onRoute({ config: { truesign: { audit: { sink: { write: jest.fn(), close: routeClose } } } } });
+    hook.onRoute({ config: { truesign: { audit: { sink: { write: jest.fn() } } } } });
+    await new Promise<void>((resolve) => hook.onClose(null, resolve));
+
+    expect(close).toBeCalledTimes(1);
+    expect(routeClose).toBeCalledTimes(1);
+    expect(logger.error).toBeCalledWith({ err: new Error('disk full') }, 'Error closing the Truesign audit sink');
+  });
+});
+
+describe('`bypass`', () => {
+  const bypass = [
+    { name: 'health', urls: ['/health'] },
+    { name: 'partners', when: (req: FastifyRequest) => req.headers['x-api-key'] === 'secret' },
+  ];
+
+  function makeMockLogger(): { [Level in keyof TruesignLogger]: jest.Mock } {
+    return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  }
+
+  function makeRequest(url: string, headers: FastifyRequest['headers'] = {}): FastifyRequest {
+    return { ...makeMockFastifyRequest({ headers }), url } as FastifyRequest;
+  }
+
+  test('Letting matching requests through without a token', () => {
+    const logger = makeMockLogger();
+    const events = { onBypassed: jest.fn(), onRejected: jest.fn() };
+    const write = jest.fn();
+    const hook = getTruesignHook({ encryptionKey: ENCRYPTION_KEY, bypass, logger, events, audit: { sink: { write } } });
+    const mockRequest = makeRequest('/health?probe=1');
+    const mockNext = jest.fn();
+
+    hook(mockRequest, makeMockFastifyReply(), mockNext);
+
+    expect(mockNext).toBeCalledWith();
+    expect((mockRequest as unknown as Record<string, unknown>)['ts-token']).toBeNull();
+    expect((mockRequest as unknown as Record<string, unknown>)['ts-token-info'])
+      .toEqual({ keyId: null, emailTypo: null, risk: null, bypass: 'health', session: null, rejection: null });
+    expect(logger.info).toBeCalledWith({ truesign: { bypass: 'health' } }, 'Truesign check bypassed');
+    expect(events.onBypassed).toBeCalledWith({ req: mockRequest, rule: 'health' });
+    expect(events.onRejected).not.toBeCalled();
+    expect(write).toBeCalledWith(expect.objectContaining({ outcome: 'bypassed', reason: null, bypass: 'health' }));
+  });
+
+  test('Checking the token of the requests no rule matches', () => {
+    const mockReply = makeMockFastifyReply();
+    const mockNext = jest.fn();
+    const hook = getTruesignHook({ encryptionKey: ENCRYPTION_KEY, bypass, logger: makeMockLogger() });
+
+    hook(makeRequest('/signup', { 'x-api-key': 'secret' }), makeMockFastifyReply(), mockNext);
+    hook(makeRequest('/signup', { 'x-api-key': 'wrong' }), mockReply, mockNext);
+
+    expect(mockNext).toBeCalledTimes(1);
+    expect(mockReply.code).toBeCalledWith(401);
+  });
+
+  test('Checking the token when a `when` predicate throws', () => {
+    const logger = makeMockLogger();
+    const error = new Error('Key store unavailable');
+    const mockReply = makeMockFastifyReply();
+    const mockNext = jest.fn();
+
+    getTruesignHook({
+      encryptionKey: ENCRYPTION_KEY,
+      bypass: [{ name: 'partners', when: () => { throw error; } }],
+      logger,
+    })(makeRequest('/signup'), mockReply, mockNext);
+
+    expect(mockNext).not.toBeCalled();
+    expect(mockReply.code).toBeCalledWith(401);
+    expect(logger.error)
+      .toBeCalledWith({ err: error, truesign: { bypass: 'partners' } }, 'Error in Truesign bypass rule');
+  });
+
+  test('Not allowing invalid rules', () => {
+    expect(() => getTruesignHook({ encryptionKey: ENCRYPTION_KEY, bypass: [{ name: 'health' }] }))
+      .toThrow('Rule `health` in `bypass` must set `urls`, `ips` or `when`');
+  });
+});
+
+describe('`session`', () => {
+  const session = { secrets: ['a-session-secret-of-at-least-32-bytes'] };
+  const decryptFunction = () => humanToken({ clusterId: 7, country: 'ES' });
+
+  function makeRequest(
+    { token, cookie }: { token?: string; cookie?: string },
+  ): FastifyRequest {
+    const request = makeMockFastifyRequest({ query: token ? { 'ts-token': token } : {}, headers: { cookie } });
+    return { ...request, ip: '203.0.113.10' } as FastifyRequest;
+  }
+
+  test('Issuing a cookie for accepted tokens, and accepting the next requests on it', async () => {
+    const write = jest.fn();
+    const audit = { sink: { write } };
+    const hook = getAsyncTruesignHook({ encryptionKey: ENCRYPTION_KEY, decryptFunction, session, audit });
+    const tokenReply = makeMockFastifyReply();
+
+    await hook(makeRequest({ token: 'jarl' }), tokenReply);
+
+    expect(tokenReply.header).toBeCalledWith('Set-Cookie', expect.stringMatching(/^ts-session=/));
+    const cookie = (tokenReply.header as jest.Mock).mock.calls[0][1].split(';')[0];
+
+    const sessionRequest = makeRequest({ cookie });
+    const sessionReply = makeMockFastifyReply();
+    await expect(hook(sessionRequest, sessionReply)).resolves.toBeUndefined();
+
+    expect(sessionReply.header).not.toBeCalled();
+    expect((sessionRequest as unknown as Record<string, unknown>)['ts-token']).toBeNull();
+    expect((sessionRequest as unknown as Record<string, unknown>)['ts-token-info']).toMatchObject({
+      session: {
+        bot: 0,
+        anonymizer: 0,
+        clusterId: 7,
+        country: 'ES',
+        disposable: false,
+        notDeliverable: false,
+        expiresAt: expect.any(Number),
+      },
+    });
+    expect(write.mock.calls.map(([record]) => [record.outcome, record.requestId === null, record.clusterId]))
+      .toEqual([['accepted', false, 7], ['accepted', true, 7]]);
+  });
+
+  test('Checking the verdict of the cookie against the config of the route', async () => {
+    const onAccepted = jest.fn();
+    const onReject = jest.fn();
+    const hook = getAsyncTruesignHook({
+      encryptionKey: ENCRYPTION_KEY,
+      decryptFunction,
+      session,
+      events: { onAccepted },
+      onReject,
+    });
+    const withRouteConfig = (config: unknown): FastifyReply => ({ ...makeMockFastifyReply(), context: { config } });
+    const strictPolicy = createTruesignPolicy({ maxBot: 0, rejectClusters: true });
+    const strictConfig = { url: '/checkout', truesign: { policy: strictPolicy } };
+    const rateLimit = { rules: [{ key: 'clusterId' as const, limit: 1, windowMs: 60000 }] };
+    const limitedConfig = { url: '/search', truesign: { rateLimit } };
+    const tokenReply = withRouteConfig({ url: '/' });
+
+    await hook(makeRequest({ token: 'jarl' }), tokenReply);
+    const cookie = (tokenReply.header as jest.Mock).mock.calls[0][1].split(';')[0];
+
+    const limitedRequest = makeRequest({ cookie });
+    await expect(hook(limitedRequest, withRouteConfig(limitedConfig))).resolves.toBeUndefined();
+    await hook(makeRequest({ cookie }), withRouteConfig(limitedConfig));
+    await hook(makeRequest({ cookie }), withRouteConfig(strictConfig));
+
+    expect(onAccepted).toBeCalledTimes(2);
+    expect(onAccepted).toHaveBeenLastCalledWith({
+      req: limitedRequest,
+      token: null,
+      info: expect.objectContaining({ session: expect.objectContaining({ clusterId: 7 }) }),
+    });
+    expect(onReject.mock.calls.map(([rejection]) => rejection.reason))
+      .toEqual(['rate_limited', 'policy_rejected:rejectClusters']);
+  });
+
+  test('Counting the requests accepted on the cookie against `ip` rate limits', async () => {
+    const onReject = jest.fn();
+    const hook = getAsyncTruesignHook({
+      encryptionKey: ENCRYPTION_KEY,
+      decryptFunction,
+      session,
+      rateLimit: { rules: [{ key: 'ip', limit: 2, windowMs: 60000 }] },
+      onReject,
+    });
+    const tokenReply = makeMockFastifyReply();
+
+    await hook(makeRequest({ token: 'jarl' }), tokenReply);
+    const cookie = (tokenReply.header as jest.Mock).mock.calls[0][1].split(';')[0];
+    await hook(makeRequest({ cookie }), makeMockFastifyReply());
+    await hook(makeRequest({ cookie }), makeMockFastifyReply());
+
+    expect(onReject).toBeCalledTimes(1);
+    expect(onReject.mock.calls[0][0]).toMatchObject({ reason: 'rate_limited', detail: 'Rate limit `ip` exceeded' });
+  });
+
+  test('Requiring a token on routes whose checks need the whole token', async () => {
+    const onReject = jest.fn();
+    const hook = getAsyncTruesignHook({ encryptionKey: ENCRYPTION_KEY, decryptFunction, session, onReject });
+    const tokenReply = makeMockFastifyReply();
+    const shouldAcceptToken = jest.fn((token: DecryptedToken) => Date.now() - token.timestamp < 60000);
+    const customReply = { ...makeMockFastifyReply(), context: { config: { truesign: { shouldAcceptToken } } } };
+
+    await hook(makeRequest({ token: 'jarl' }), tokenReply);
+    const cookie = (tokenReply.header as jest.Mock).mock.calls[0][1].split(';')[0];
+    await hook(makeRequest({ cookie }), customReply);
+    await expect(hook(makeRequest({ token: 'jarl', cookie }), customReply)).resolves.toBeUndefined();
+
+    expect(onReject.mock.calls.map(([rejection]) => rejection)).toEqual([{ reason: 'missing_token' }]);
+    expect(shouldAcceptToken).toBeCalledTimes(1);
+  });
+
+  test('Checking the token when the verdict of the cookie doesn\'t meet the route', async () => {
+    const clusterDecryptFunction = jest.fn()
+      .mockReturnValueOnce(humanToken({ clusterId: 7 }))
+      .mockReturnValueOnce(humanToken({ clusterId: 0 }));
+    const strictPolicy = createTruesignPolicy({ rejectClusters: true });
+    const reply = { ...makeMockFastifyReply(), context: { config: { truesign: { policy: strictPolicy } } } };
+    const hook = getAsyncTruesignHook({
+      encryptionKey: ENCRYPTION_KEY,
+      decryptFunction: clusterDecryptFunction,
+      session,
+    });
+    const tokenReply = makeMockFastifyReply();
+
+    await hook(makeRequest({ token: 'jarl' }), tokenReply);
+    const cookie = (tokenReply.header as jest.Mock).mock.calls[0][1].split(';')[0];
+
+    await expect(hook(makeRequest({ token: 'jarl', cookie }), reply)).resolves.toBeUndefined();
+    expect(reply.code).not.toBeCalled();
+    expect(reply.header).toBeCalledWith('Set-Cookie', expect.stringMatching(/^ts-session=/));
+  });
+
+  test('Rejecting invalid cookies when there is no token', async () => {
+    const onReject = jest.fn();
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const hook = getAsyncTruesignHook({ encryptionKey: ENCRYPTION_KEY, session, onReject, logger });
+
+    await hook(makeRequest({ cookie: 'ts-session=forged' }), makeMockFastifyReply());
+    await hook(makeRequest({}), makeMockFastifyReply());
+
+    expect(onReject.mock.calls.map(([rejection]) => rejection)).toEqual([
+      { reason: 'session_invalid', detail: 'Malformed session cookie' },
+      { reason: 'missing_token' },
+    ]);
+  });
+
+  test('Checking the token when the cookie is invalid', async () => {
+    const mockReply = makeMockFastifyReply();
+
+    await expect(getAsyncTruesignHook({ encryptionKey: ENCRYPTION_KEY, decryptFunction, session })(
+      makeRequest({ token: 'jarl', cookie: 'ts-session=forged' }),
+      mockReply,
+    )).resolves.toBeUndefined();
+    expect(mockReply.header).toBeCalledWith('Set-Cookie', expect.any(String));
+  });
+
+  test('Not issuing cookies for revoked clusters', async () => {
+    const mockReply = makeMockFastifyReply();
+    const revocationList = { isRevoked: (clusterId: number) => Promise.resolve(clusterId === 7) };
+
+    await expect(getAsyncTruesignHook({
+      encryptionKey: ENCRYPTION_KEY,
+      decryptFunction,
+      session: { ...session, revocationList },
+    })(makeRequest({ token: 'jarl' }), mockReply)).resolves.toBeUndefined();
+    expect(mockReply.header).not.toBeCalled();
+  });
+});
@@ -1,5 +1,171 @@
 import * as crypto from 'node:crypto';
 
+import { type AuditDecision, getAuditRecorder, type TruesignAuditConfig, type TruesignAuditSink } from './audit';
+import { getBypassMatcher, type TruesignBypassRule } from './bypass';
+import { createTokenCache, type DecisionCacheConfig } from './decision-cache';
+import { type EncryptionKeyEncoding, getTokenStructureError, parseEncryptionKey } from './encryption-key';
+import { type TruesignLifecycleEvents } from './events';
+import { extractTrueSignToken } from './extraction';
+import {
+  type EmailBindingConfig,
+  type EmailTypoSuggestion,
+  getEmailBindingCheck,
+  getEmailTypoSuggestion,
+} from './email-binding';
+import { DEFAULT_ALLOWED_CLOCK_SKEW_MS, getFreshnessCheck, type TokenFreshness } from './freshness';
+import { getClientIpResolver, getIpBindingCheck, type IpBindingConfig } from './ip-binding';
+import {
+  assertValidKeyring,
+  getActiveKeys,
+  type TruesignEncryptionKey,
+  type TruesignKeyring,
+} from './keyring';
+import { chain, isPromiseLike, type MaybePromise } from './maybe-promise';
+import { getMetaBindingCheck, type MetaBindingConfig } from './meta-binding';
+import {
+  consoleLogger,
+  createLogSampler,
+  type LogSamplingConfig,
+  type TruesignLogger,
+  type TruesignLogLevel,
+} from './logging';
+import { isTruesignPolicy, type PolicyResult } from './policy';
+import {
+  defaultOnReject,
+  policyRejectionReason,
+  type RejectFunction,
+  type TruesignRejection,
+  type TruesignRejectionReason,
+} from './rejection';
+import { canLimitSessions, getRateLimitCheck, type RateLimitConfig, type RateLimitSubject } from './rate-limit';
+import { getReplayGuard, type ReplayProtectionConfig } from './replay';
+import {
+  createTruesignRiskScorer,
+  getRiskChallengeResponse,
+  type RiskAssessment,
+  type RiskScoringConfig,
+} from './risk';
+import {
+  createRouteHookResolver,
+  type TruesignRouteOptions,
+  withSharedStores,
+} from './route-config';
+import {
+  getSessionManager,
+  type SessionCheck,
+  type TruesignSession,
+  type TruesignSessionConfig,
+} from './session';
+import { IV_LENGTH, isRecord } from './utils';
+import { validateDecryptedToken } from './validation';
+
+export {
+  type AuditRedaction,
+  createJsonLinesAuditSink,
+  type JsonLinesAuditSink,
+  type JsonLinesAuditSinkOptions,
+  type TruesignAuditConfig,
+  type TruesignAuditOutcome,
+  type TruesignAuditRecord,
+  type TruesignAuditSink,
+} from './audit';
+export { type TruesignBypassRule } from './bypass';
+export { type DecisionCacheConfig } from './decision-cache';
+export { type EncryptionKeyEncoding, getTokenStructureError, parseEncryptionKey } from './encryption-key';
+export {
+  type TruesignAcceptedEvent,
+  type TruesignBypassedEvent,
+  type TruesignLifecycleEvents,
+  type TruesignRejectedEvent,
+} from './events';
+export {
+  type ExpressNextFunction,
+  type ExpressRequest,
+  type ExpressResponse,
+  getTruesignExpressMiddleware,
+  type TruesignExpressMiddleware,
+} from './express';
+export {
+  type DuplicateValuePolicy,
+  extractTrueSignToken,
+  extractTruesignTokenFromAuthorization,
+  extractTruesignTokenFromBody,
+  extractTruesignTokenFromCookie,
+  extractTruesignTokenFromHeader,
+  extractTruesignTokenFromQuery,
+  type ExtractorOptions,
+  type ExtractTrueSignTokenOptions,
+  firstOf,
+  requireAll,
+} from './extraction';
+export {
+  type EmailBindingConfig,
+  type EmailTypoSuggestion,
+  getEmailTypoSuggestion,
+  normalizeEmailDomain,
+} from './email-binding';
+export { type TokenFreshness } from './freshness';
+export { getTokenIp, type IpBindingConfig, normalizeIp } from './ip-binding';
+export { type TruesignEncryptionKey, type TruesignKeyring } from './keyring';
+export { getTruesignKoaMiddleware, type KoaContext, type TruesignKoaMiddleware } from './koa';
+export { consoleLogger, createLogSampler, type LogSamplingConfig, type TruesignLogger } from './logging';
+export { type MaybePromise } from './maybe-promise';
+export { createTruesignMeta, type MetaBindingConfig } from './meta-binding';
+export { getTruesignRequestListener, type TruesignRequestListener } from './node-http';
+export {
+  andPolicies,
+  createTruesignPolicy,
+  isTruesignPolicy,
+  orPolicies,
+  policyRule,
+  type PolicyResult,
+  type TruesignPolicy,
+  type TruesignPolicyOptions,
+} from './policy';
+export {
+  TRUESIGN_INFO_REQUEST_PROPERTY,
+  TRUESIGN_REQUEST_PROPERTY,
+  type TruesignFastifyInstance,
+  type TruesignHookName,
+  truesignPlugin,
+  type TruesignPluginOptions,
+} from './plugin';
+export {
+  defaultOnReject,
+  type RejectFunction,
+  type TruesignRejection,
+  type TruesignRejectionReason,
+} from './rejection';
+export {
+  createMemoryRateLimitStore,
+  type RateLimitAlgorithm,
+  type RateLimitConfig,
+  type RateLimitKey,
+  type RateLimitResult,
+  type RateLimitRule,
+  type RateLimitStore,
+  type RateLimitWindow,
+} from './rate-limit';
+export { createMemoryReplayStore, type ReplayProtectionConfig, type ReplayStore } from './replay';
+export {
+  createTruesignRiskScorer,
+  type RiskAssessment,
+  type RiskChallengeResponse,
+  type RiskScoringConfig,
+  type RiskTier,
+  type RiskWeights,
+} from './risk';
+export { mergeTruesignRouteConfig, type TruesignRouteConfig, type TruesignRouteOptions } from './route-config';
+export {
+  createMemorySessionRevocationList,
+  type MemorySessionRevocationList,
+  type SessionRevocationList,
+  type TruesignSession,
+  type TruesignSessionConfig,
+  type TruesignSessionVerdict,
+} from './session';
+export { type TokenValidationResult, validateDecryptedToken } from './validation';
+
 export type DecryptedToken =
   & DecryptedTokenBase
   & DecryptedTokenEmail
@@ -40,13 +206,15 @@ type DecryptedTokenBase = {
   /**
    * Number in range (0 -- 2^53). Each token contains a different value.
    *
-   * Avoid visitors reusing tokens by keeping track of the `requestId`s received in the last N minutes.
+   * Avoid visitors reusing tokens by keeping track of the `requestId`s received in the last N minutes. See
+   * {@link TruesignHookConfig.replayProtection}.
    */
   requestId: number,
   /**
    * The token creation time as Unix epoch with millisecond resolution.
    *
-   * Avoid visitors reusing tokens by rejecting timestamps older than N minutes.
+   * Avoid visitors reusing tokens by rejecting timestamps older than N minutes. See
+   * {@link TruesignHookConfig.maxTokenAgeMs}.
    */
   timestamp: number,
   /**
@@ -117,120 +285,174 @@ type DecryptedTokenIp =
     ipv6: string;
   };
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value);
-}
-
 /**
- * Generates a function that extracts the Truesign token from a query string param.
+ * Result of {@link decryptTruesignTokenDetailed}. When decryption fails, `rejection` explains why.
  *
- * @param queryParam Query param name where the token is expected to be found (case-sensitive)
- * @returns A function that extracts the token from the request
+ * `keyId` is the id of the keyring key that decrypted the token, or `null` when a single key was used.
  */
-export function extractTruesignTokenFromQuery(
-  queryParam: string,
-): ExtractTokenFunction {
-  return (req: FastifyRequest) => {
-    if (!isRecord(req.query)) {
-      return null;
-    }
+export type DecryptResult =
+  | { ok: true; token: DecryptedToken; keyId: string | null }
+  | DecryptFailure;
 
-    const tsToken = req.query[queryParam];
-    if (typeof tsToken !== 'string' || !tsToken) {
-      return null;
-    }
+type DecryptFailure = { ok: false; rejection: TruesignRejection & { reason: 'decrypt_failed' | 'invalid_payload' } };
 
-    return tsToken;
-  };
+type DecryptOptions = {
+  /**
+   * Clock used to discard keyring keys past their `notAfter` date.
+   *
+   * @default Date.now
+   */
+  now?: () => number;
+  /**
+   * Encoding of a single `encryptionKey`. Keyring keys set their own.
+   *
+   * @default 'raw'
+   */
+  encoding?: EncryptionKeyEncoding;
+};
+
+function decryptWithKey(encryptionKey: Buffer, token: string): DecryptResult {
+  // Malformed tokens are rejected before running any crypto
+  const structureError = getTokenStructureError(token);
+  if (structureError !== null) {
+    return { ok: false, rejection: { reason: 'decrypt_failed', detail: structureError } };
+  }
+
+  let payload: unknown;
+  try {
+    const iv = token.substring(0, IV_LENGTH);
+    const encryptedMsg = token.substring(IV_LENGTH);
+    const decipher = crypto.createDecipheriv('aes-256-cbc', encryptionKey, iv);
+    let decryptedTxt = decipher.update(encryptedMsg, 'base64', 'utf8');
+    decryptedTxt += decipher.final('utf8');
+    payload = JSON.parse(decryptedTxt);
+  } catch (error) {
+    // Since Truesign tokens are user-controlled input, decryption can still fail for well-formed tokens (wrong key,
+    // invalid padding, invalid json...)
+    return {
+      ok: false,
+      rejection: { reason: 'decrypt_failed', detail: error instanceof Error ? error.message : String(error), error },
+    };
+  }
+
+  const validation = validateDecryptedToken(payload);
+  if (validation.valid === false) {
+    return { ok: false, rejection: { reason: 'invalid_payload', detail: validation.reason } };
+  }
+
+  return { ok: true, token: validation.token, keyId: null };
 }
 
 /**
- * Generates a function that extracts the Truesign token from a header.
+ * Tries every active key of the keyring in order, until one of them decrypts the token.
  *
- * @param headerName Header name where the token is expected to be found (case-insensitive)
- * @returns A function that extracts the token from the request
+ * If none does, the most specific failure is returned: a key that decrypts the token into an invalid payload is more
+ * relevant than keys that can't decrypt it at all.
  */
-export function extractTruesignTokenFromHeader(
-  headerName: string,
-): ExtractTokenFunction {
-  const headerNameLower = headerName.toLowerCase();
-
-  return (req: FastifyRequest) => {
-    const tsToken = req.headers[headerNameLower];
-    // This explicitly excludes string[] because we wouldn't be sure _which_ of the headers to use
-    if (typeof tsToken !== 'string' || !tsToken) {
-      return null;
+// Unlike the hook, which checks its keys once when it's created, a key that can't be decoded here fails the decryption
+function decryptWithKeyString(
+  key: string,
+  encoding: EncryptionKeyEncoding | undefined,
+  option: string,
+  token: string,
+): DecryptResult {
+  let keyBytes: Buffer;
+  try {
+    keyBytes = parseEncryptionKey(key, encoding, option);
+  } catch (error) {
+    return {
+      ok: false,
+      rejection: { reason: 'decrypt_failed', detail: error instanceof Error ? error.message : String(error), error },
+    };
+  }
+  return decryptWithKey(keyBytes, token);
+}
+
+function decryptWithKeyring(
+  keyring: TruesignKeyring,
+  now: number,
+  attempt: (encryptionKey: TruesignEncryptionKey) => MaybePromise<DecryptResult>,
+): MaybePromise<DecryptResult> {
+  const keys = getActiveKeys(keyring, now);
+
+  const tryKey = (index: number, failure: DecryptFailure | null): MaybePromise<DecryptResult> => {
+    if (index >= keys.length) {
+      return failure ?? { ok: false, rejection: { reason: 'decrypt_failed', detail: 'No active encryption key' } };
     }
 
-    return tsToken;
-  };
-}
+    return chain(attempt(keys[index]), (result) => {
+      if (result.ok === true) {
+        return { ...result, keyId: keys[index].id };
+      }
 
-type ExtractTrueSignTokenOptions = {
-  queryParam?: string;
-  headerName?: string;
-};
+      const isMoreSpecific = failure === null || result.rejection.reason === 'invalid_payload';
+      return tryKey(index + 1, isMoreSpecific ? result : failure);
+    });
+  };
 
-const DEFAULT_EXTRACT_QUERY_PARAM = 'ts-token';
-const DEFAULT_EXTRACT_HEADER_NAME = 'x-ts-token';
+  return tryKey(0, null);
+}
 
 /**
- * Default Truesign token extraction function.
+ * Decrypts token with encryptionKey and returns a JSON with the decrypted info, or the reason why it failed.
+ *
+ * The decrypted payload is checked with {@link validateDecryptedToken}:
+ * - `decrypt_failed` is returned when the token is malformed or can't be decrypted with the key, or the key is not
+ *   32 bytes long in its encoding
+ * - `invalid_payload` is returned when the token was decrypted but the payload is not a valid {@link DecryptedToken}
  *
- * Extracts the Truesign token from either a query parameter or a header.
+ * When given a {@link TruesignKeyring}, its active keys are tried in order and the id of the key that decrypted the
+ * token is returned as `keyId`.
  *
- * @param queryParam Query param name where the token is expected to be found (case-sensitive)
- * @param headerName Header name where the token is expected to be found (case-insensitive)
- * @returns A function that extracts the token from the request
+ * @see https://my.truesign.ai/docs
+ * @param encryptionKey A single key or a keyring
+ * @param token string
+ * @param options DecryptOptions
+ * @returns DecryptResult
  */
-export function extractTrueSignToken(options: ExtractTrueSignTokenOptions = {}): ExtractTokenFunction {
-  const {
-    queryParam = DEFAULT_EXTRACT_QUERY_PARAM,
-    headerName = DEFAULT_EXTRACT_HEADER_NAME,
-  } = options;
-
-  const extractFromQuery = extractTruesignTokenFromQuery(queryParam);
-  const extractFromHeader = extractTruesignTokenFromHeader(headerName);
+export function decryptTruesignTokenDetailed(
+  encryptionKey: string | TruesignKeyring,
+  token: string,
+  options: DecryptOptions = {},
+): DecryptResult {
+  if (typeof encryptionKey === 'string') {
+    return decryptWithKeyString(encryptionKey, options.encoding, 'encryptionKey', token);
+  }
 
-  return (req: FastifyRequest) => {
-    return extractFromQuery(req) ?? extractFromHeader(req);
-  };
+  const now = options.now ?? Date.now;
+  // Every attempt is synchronous, so the result is too
+  return decryptWithKeyring(encryptionKey, now(), ({ id, key, encoding }) => (
+    decryptWithKeyString(key, encoding, `encryptionKeys.${id}`, token)
+  )) as DecryptResult;
 }
 
 /**
  * Decrypts token with encryptionKey and returns a JSON with the decrypted info.
  *
- * If the token is invalid or decryption fails, it returns `null`.
+ * The decrypted payload is checked with {@link validateDecryptedToken}. If the token is invalid, decryption fails or
+ * the payload doesn't match the {@link DecryptedToken} shape, it returns `null`. Use
+ * {@link decryptTruesignTokenDetailed} to know why.
  *
  * @see https://my.truesign.ai/docs
- * @param encryptionKey string
+ * @param encryptionKey A single key or a keyring, whose active keys are tried in order
  * @param token string
+ * @param logger Where decryption failures are logged
  * @returns DecryptedToken or `null` if decryption failed
  */
-export function decryptTruesignToken(encryptionKey: string, token: string): DecryptedToken | null {
-  const IV_LENGTH = 16; // For AES-256-CBC, this is always 16
-
-  if (token.length < IV_LENGTH) {
-    return null;
-  }
-
-  try {
-    const iv = token.substring(0, IV_LENGTH);
-    const encryptedMsg = token.substring(IV_LENGTH);
-    const decipher = crypto.createDecipheriv('aes-256-cbc', encryptionKey, iv);
-    let decryptedTxt = decipher.update(encryptedMsg, 'base64', 'utf8');
-    decryptedTxt += decipher.final('utf8');
-
-    // Here we assume that the decrypted text conforms to DecryptedToken, which should be true since only Truesign
-    // could have generated it.
-    return JSON.parse(decryptedTxt) as DecryptedToken;
-  } catch (error) {
-    // Since Truesign tokens are user-controlled input, decryption can fail for many reasons (invalid base64, invalid
-    // iv, invalid json...)
+export function decryptTruesignToken(
+  encryptionKey: string | TruesignKeyring,
+  token: string,
+  logger: TruesignLogger = consoleLogger,
+): DecryptedToken | null {
+  const result = decryptTruesignTokenDetailed(encryptionKey, token);
+  if (result.ok === false) {
     // We log the error for debugging purposes, but we don't throw to avoid breaking the request flow.
-    console.warn('Error decrypting Truesign token:', error);
+    const { reason, detail } = result.rejection;
+    logger.warn({ reason, detail }, 'Error decrypting Truesign token');
     return null;
   }
+
+  return result.token;
 }
 
 export type ShouldAcceptTokenFunction<AdditionalConfig extends Record<string, unknown> = {}> = (
@@ -238,15 +460,36 @@ export type ShouldAcceptTokenFunction<AdditionalConfig extends Record<string, un
   options: TruesignHookConfig<AdditionalConfig>,
 ) => boolean;
 
+export type AsyncShouldAcceptTokenFunction<AdditionalConfig extends Record<string, unknown> = {}> = (
+  decryptedToken: DecryptedToken,
+  options: TruesignHookConfig<AdditionalConfig>,
+) => Promise<boolean>;
+
 export type ExtractTokenFunction = (
-  req: FastifyRequest,
+  req: TruesignRequestInput,
 ) => string | null;
 
+export type AsyncExtractTokenFunction = (
+  req: TruesignRequestInput,
+) => Promise<string | null>;
+
+/**
+ * Any extractor, sync or async, like the ones returned by {@link firstOf} and {@link requireAll}.
+ */
+export type AnyExtractTokenFunction = (
+  req: TruesignRequestInput,
+) => MaybePromise<string | null>;
+
 export type DecryptTokenFunction = (
   encryptionKey: string,
   token: string,
 ) => DecryptedToken | null;
 
+export type AsyncDecryptTokenFunction = (
+  encryptionKey: string,
+  token: string,
+) => Promise<DecryptedToken | null>;
+
 /**
  * Configuration object for the Truesign Fastify hook.
  *
@@ -256,23 +499,63 @@ export type TruesignHookConfig<Additional extends Record<string, unknown> = {}>
   & {
     /**
      * Token encryption key, as listed in your [Truesign dashboard](https://my.truesign.ai/dashboard#endpoints).
+     *
+     * Required unless {@link encryptionKeys} is set. It must be 32 bytes long once decoded with
+     * {@link encryptionKeyEncoding}, which is checked when the hook is created.
+     */
+    encryptionKey?: string;
+    /**
+     * Encoding of {@link encryptionKey}. Keys of {@link encryptionKeys} set their own `encoding`.
+     *
+     * Ignored along with the key format when {@link decryptFunction} is set, since the key is then passed to it as is.
+     *
+     * @default 'raw'
      */
-    encryptionKey: string;
+    encryptionKeyEncoding?: EncryptionKeyEncoding;
     /**
-     * If `true`, the hook will allow all requests, completely bypassing the hook.
+     * Keyring used instead of {@link encryptionKey} to rotate keys without downtime. Keys are tried in order, skipping
+     * those past their `notAfter` date.
+     *
+     * The id of the key that decrypted the token is injected in `keyId` of the {@link TruesignRequestInfo}.
+     */
+    encryptionKeys?: TruesignKeyring;
+    /**
+     * If `true`, the hook will allow all requests, completely bypassing the hook. Same as `mode: 'off'`.
      */
     allowUnauthenticated?: boolean;
+    /**
+     * - `enforce`: rejected requests go through {@link onReject}
+     * - `report`: tokens are checked as usual, but every request is let through. The token, if it could be decrypted,
+     *   and the would-be decision (`rejection` in the {@link TruesignRequestInfo}) are injected in the request, so new
+     *   policies can be measured on live traffic before blocking
+     * - `off`: the hook does nothing, like `allowUnauthenticated`
+     *
+     * @default 'enforce', or 'off' if `allowUnauthenticated` is `true`
+     */
+    mode?: TruesignMode;
+    /**
+     * Rules that let trusted clients through without a token, e.g. internal services, uptime probes or API-key
+     * clients. They're tried in order and the first one that matches wins, in both `enforce` and `report` modes.
+     *
+     * The name of the rule is injected in `bypass` of the {@link TruesignRequestInfo}, logged and audited.
+     *
+     * @default undefined (every request needs a token)
+     */
+    bypass?: TruesignBypassRule[];
     /**
      * A function that receives the decrypted token and returns whether the token should be accepted.
      *
      * It receives the decrypted token and the full config object as parameters, so you can use other config values in
      * your logic.
      *
+     * Use {@link createTruesignPolicy} to build it from declarative rules. It can also be async, e.g. to look up the
+     * user or a feature flag before accepting the token.
+     *
      * @default `() => true`
      */
-    shouldAcceptToken?: ShouldAcceptTokenFunction<Additional>;
+    shouldAcceptToken?: ShouldAcceptTokenFunction<Additional> | AsyncShouldAcceptTokenFunction<Additional>;
     /**
-     * Function that extracts the token from the {@link FastifyRequest}.
+     * Function that extracts the token from the the request. It can be async.
      *
      * @default
      * ```
@@ -282,69 +565,1061 @@ export type TruesignHookConfig<Additional extends Record<string, unknown> = {}>
      * })
      * ```
      */
-    extractToken?: ExtractTokenFunction;
+    extractToken?: ExtractTokenFunction | AsyncExtractTokenFunction | AnyExtractTokenFunction;
     /**
-     * The key where the decrypted token is injected in {@link FastifyRequest} for later middlewares or route handler.
+     * The key where the decrypted token is injected in the request for later middlewares or route handler.
+     *
+     * Prefer {@link truesignPlugin}, which injects into a typed `request.truesign`.
      *
      * @default 'ts-token'
      */
     injectInto?: string;
     /**
-     * Custom decrypt function.
+     * The key where the {@link TruesignRequestInfo} of an accepted token is injected in the request.
+     *
+     * @default 'ts-token-info'
+     */
+    injectInfoInto?: string;
+    /**
+     * Custom decrypt function. It can be async.
      *
      * @default decryptTruesignToken
      */
-    decryptFunction?: DecryptTokenFunction;
+    decryptFunction?: DecryptTokenFunction | AsyncDecryptTokenFunction;
+    /**
+     * Rejects tokens whose `requestId` was already accepted inside the configured window.
+     *
+     * The check runs last, after {@link shouldAcceptToken} and {@link rateLimit}, so only accepted tokens are recorded.
+     * When enabled, the hook calls `next()` asynchronously once the store has answered.
+     *
+     * @default undefined (disabled)
+     */
+    replayProtection?: ReplayProtectionConfig;
+    /**
+     * Throttles requests grouped by token fields, like `clusterId` or `country`, instead of blocking them completely.
+     * Requests over the limit are rejected with `rate_limited`, which the default {@link onReject} answers with `429`
+     * and `Retry-After`.
+     *
+     * The limits are checked after every other check but {@link replayProtection}, so a rate limited token isn't
+     * recorded as used and can be sent again once `Retry-After` has passed. Replayed tokens still count towards the
+     * limits.
+     *
+     * @default undefined (disabled)
+     */
+    rateLimit?: RateLimitConfig;
+    /**
+     * Scores each token from its fields and sorts it into the `allow`, `challenge` or `block` tier. Challenged and
+     * blocked requests are rejected with `risk_challenge` and `risk_blocked`, after `shouldAcceptToken` accepts them.
+     *
+     * The assessment is injected in the request info either way.
+     *
+     * @default undefined (disabled)
+     */
+    risk?: RiskScoringConfig;
+    /**
+     * Caches decrypted tokens, so a token sent on several requests is only decrypted (and, with `cacheDecision`,
+     * only checked by {@link shouldAcceptToken}) once.
+     *
+     * Every other check still runs on each request: a cached token is still rejected when it expires, when it's
+     * replayed (see {@link replayProtection}), or when it doesn't match the request. Cached tokens are frozen, since
+     * the same object is injected in every request that sends them.
+     *
+     * @default undefined (disabled)
+     */
+    cache?: DecisionCacheConfig;
+    /**
+     * Maximum age of a token in milliseconds, measured from its `timestamp`. Older tokens are rejected, and so are
+     * tokens dated in the future beyond {@link allowedClockSkewMs}.
+     *
+     * Freshness is checked before {@link shouldAcceptToken}.
+     *
+     * @default undefined (tokens never expire)
+     */
+    maxTokenAgeMs?: number;
+    /**
+     * Tolerated difference between Truesign's clock and this server's clock, in milliseconds. Only used when
+     * {@link maxTokenAgeMs} is set.
+     *
+     * @default 5000
+     */
+    allowedClockSkewMs?: number;
+    /**
+     * Rejects tokens presented from a different IP than the one Truesign saw when creating them, so they can't be
+     * replayed from another machine. Pass `{}` to compare `req.ip` with the token IP as is.
+     *
+     * @default undefined (disabled)
+     */
+    ipBinding?: IpBindingConfig;
+    /**
+     * Rejects tokens whose verified `email` is not the one submitted in the request body, so users can't verify an
+     * address and then register another. Emails are compared case-insensitively, with normalized domains.
+     *
+     * The body is only available from the `preValidation` hook on.
+     *
+     * @default undefined (disabled)
+     */
+    emailBinding?: EmailBindingConfig;
+    /**
+     * Rejects tokens whose `meta` doesn't match the value derived from the request, e.g. a CSRF token or a session id
+     * passed as `meta` when requesting the token. The comparison is constant-time.
+     *
+     * See {@link createTruesignMeta} to generate meta values.
+     *
+     * @default undefined (disabled)
+     */
+    metaBinding?: MetaBindingConfig;
+    /**
+     * Where the hook logs its decisions: internal errors as `error`, undecryptable tokens as `warn`, other rejections
+     * as `info` and accepted tokens as `debug`. Tokens and their PII are never logged.
+     *
+     * @default The request `log` (Fastify's `request.log`) if available, otherwise {@link consoleLogger}
+     */
+    logger?: TruesignLogger;
+    /**
+     * Limits how many entries are logged per rejection reason, so an attack can't fill the log pipeline. `false` logs
+     * every entry.
+     *
+     * @default { maxPerInterval: 100, intervalMs: 60000 }
+     */
+    logSampling?: LogSamplingConfig | false;
+    /**
+     * Callbacks called on every decision, e.g. to collect metrics.
+     */
+    events?: TruesignLifecycleEvents;
+    /**
+     * Writes a record of every decision to an audit sink, with personal data redacted. Unlike logs, records are never
+     * sampled.
+     *
+     * @default undefined (disabled)
+     */
+    audit?: TruesignAuditConfig;
+    /**
+     * Exchanges accepted tokens for a short-lived signed cookie carrying their verdict (`bot`, `anonymizer`,
+     * `clusterId`, `country` and the `disposable` and `notDeliverable` email checks), so the following requests of the
+     * client are accepted without a new token until it expires. Their token is `null`.
+     *
+     * The verdict still goes through the policy, `risk` and `rateLimit` of the route, with the IP of the client for
+     * `ip` rate limits. When it fails the policy or risk, the request needs a token. Routes whose checks need the whole
+     * token always do: custom `shouldAcceptToken` functions and `policyRule`s, `meta` or function rate limit keys,
+     * `emailBinding` and `metaBinding`.
+     *
+     * @default undefined (every request needs a token)
+     */
+    session?: TruesignSessionConfig;
+    /**
+     * Clock used for time-based checks and audit records, as Unix epoch with millisecond resolution. Mostly useful for
+     * tests.
+     *
+     * @default Date.now
+     */
+    now?: () => number;
+    /**
+     * Called instead of the default `401` response when a request is rejected. It receives the reason of the rejection
+     * and must send the response through `reply`, e.g. to pick the status code or add a body.
+     *
+     * @default defaultOnReject
+     */
+    onReject?: RejectFunction;
   }
   & Additional;
 
+const FRESHNESS_REJECTION_REASONS: Record<Exclude<TokenFreshness, 'fresh'>, TruesignRejectionReason> = {
+  expired: 'token_expired',
+  future: 'token_not_yet_valid',
+  invalid: 'invalid_payload',
+};
+
+function rejectionLogLevel(reason: TruesignRejectionReason): TruesignLogLevel {
+  if (reason === 'internal_error') {
+    return 'error';
+  }
+  if (reason === 'decrypt_failed' || reason === 'invalid_payload') {
+    return 'warn';
+  }
+  return 'info';
+}
+
+export type TruesignMode = 'enforce' | 'report' | 'off';
+
+const TRUESIGN_MODES: TruesignMode[] = ['enforce', 'report', 'off'];
+
 /**
- * Returns a Fastify hook that validates Truesign tokens and injects the decrypted token in the request.
+ * Resolves the mode of a config, including the legacy `allowUnauthenticated` flag.
  *
  * @param config TruesignHookConfig
- * @returns Fastify hook function
+ * @returns TruesignMode
+ * @throws Error if `mode` is not valid, or used together with `allowUnauthenticated`
  */
-export function getTruesignHook<AdditionalConfig extends Record<string, unknown> = {}>(
-  config: TruesignHookConfig<AdditionalConfig>
-): (req: FastifyRequest, res: FastifyReply, next: HookHandlerDoneFunction) => void {
-  if (config.allowUnauthenticated) {
-    return (_req, _res, next) => {
-      next();
+export function getTruesignMode(config: Pick<TruesignHookConfig, 'mode' | 'allowUnauthenticated'>): TruesignMode {
+  if (config.mode === undefined) {
+    return config.allowUnauthenticated ? 'off' : 'enforce';
+  }
+  if (config.allowUnauthenticated !== undefined) {
+    throw new Error('`allowUnauthenticated` and `mode` can\'t be used together');
+  }
+  if (TRUESIGN_MODES.indexOf(config.mode) === -1) {
+    throw new Error('`mode` must be `enforce`, `report` or `off`');
+  }
+  return config.mode;
+}
+
+/**
+ * Details about how the token of a request was processed, injected next to the token.
+ */
+export type TruesignRequestInfo = {
+  /**
+   * Id of the {@link TruesignHookConfig.encryptionKeys} key that decrypted the token, or `null` when using
+   * {@link TruesignHookConfig.encryptionKey}.
+   */
+  keyId: string | null;
+  /**
+   * Correction suggested by Truesign for the verified email domain, or `null` if there's no typo.
+   */
+  emailTypo: EmailTypoSuggestion | null;
+  /**
+   * Score and tier of the token, or `null` without {@link TruesignHookConfig.risk}. Handlers can use it to add
+   * friction below the `challenge` tier, e.g. to require email verification.
+   */
+  risk: RiskAssessment | null;
+  /**
+   * Name of the {@link TruesignHookConfig.bypass} rule that let the request through without checking its token, or
+   * `null` if it was checked.
+   */
+  bypass: string | null;
+  /**
+   * The {@link TruesignHookConfig.session} cookie that let the request through without a token, or `null` if it
+   * wasn't accepted on a session.
+   */
+  session: TruesignSession | null;
+  /**
+   * In `report` mode, why the request would have been rejected, or `null` if it would have been accepted. Always
+   * `null` in `enforce` mode, since rejected requests don't reach the handlers.
+   */
+  rejection: TruesignRejection | null;
+};
+
+/**
+ * Outcome of checking the Truesign token of a request. Rejections carry the token and its info when the token could
+ * be decrypted.
+ */
+export type TruesignDecision =
+  | { accepted: true; token: DecryptedToken; info: TruesignRequestInfo }
+  | { accepted: false; rejection: TruesignRejection; token?: DecryptedToken; info?: TruesignRequestInfo };
+
+/**
+ * The request fields read by the checks. Fastify and Express requests already have them, and the other adapters build
+ * them from the requests of their frameworks.
+ *
+ * Frameworks are typed by hand, instead of depending on them, so the hook works with any version of them.
+ */
+export type TruesignRequestInput = {
+  query: unknown;
+  headers: Record<string, string | string[] | undefined>;
+  ip: string;
+  method?: string;
+  /**
+   * The path, including the query string.
+   */
+  url?: string;
+  /**
+   * The route pattern, e.g. `/users/:id`.
+   */
+  routerPath?: string;
+  /**
+   * Only available once the body is parsed, e.g. from the `preValidation` hook on in Fastify.
+   */
+  body?: unknown;
+  /**
+   * Only set by Fastify when `trustProxy` is enabled.
+   */
+  ips?: string[];
+  /**
+   * Request-bound logger (pino) in Fastify v3. Only the methods used by the hook are typed.
+   */
+  log?: {
+    debug: (obj: Record<string, unknown>, msg?: string) => void;
+    info: (obj: Record<string, unknown>, msg?: string) => void;
+    warn: (obj: Record<string, unknown>, msg?: string) => void;
+    error: (obj: Record<string, unknown>, msg?: string) => void;
+  };
+};
+
+/**
+ * The reply that {@link TruesignHookConfig.onReject} sends rejections through. Fastify replies already are one, and
+ * the other adapters wrap the responses of their frameworks in it.
+ */
+export type TruesignReply = {
+  code: (statusCode: number) => TruesignReply;
+  header: (name: string, value: string) => TruesignReply;
+  send: (body?: unknown) => void;
+  /**
+   * The Fastify route context. Its `config` is a copy of the `config` of the route options.
+   */
+  context?: {
+    config?: unknown;
+  };
+};
+
+/**
+ * The `done` callback of Fastify hooks.
+ */
+export type TruesignHookDoneFunction = <TError extends Error>(err?: TError) => void;
+
+/**
+ * What to do with a request once its token is checked and the mode is applied:
+ * - `proceed: true`: let the request through with the token and its info, which are `null` in `off` mode. In `report`
+ *   mode, the token may be `null` and `info.rejection` tells why the request would have been rejected. `sessionCookie`
+ *   is the `Set-Cookie` header value to send when a {@link TruesignHookConfig.session} was issued.
+ * - `proceed: false`: reject the request.
+ */
+export type TruesignOutcome =
+  | { proceed: true; token: DecryptedToken | null; info: TruesignRequestInfo | null; sessionCookie?: string }
+  | { proceed: false; rejection: TruesignRejection };
+
+// Info of the requests let through without a decrypted token, which the other ones extend
+const EMPTY_REQUEST_INFO: TruesignRequestInfo = {
+  keyId: null,
+  emailTypo: null,
+  risk: null,
+  bypass: null,
+  session: null,
+  rejection: null,
+};
+
+type TruesignEvaluator = {
+  /**
+   * Runs every check on the request and applies the mode, logging and notifying the decision. Never throws nor
+   * rejects: errors become `internal_error` rejections.
+   */
+  evaluate: (req: TruesignRequestInput) => MaybePromise<TruesignOutcome>;
+  /**
+   * Sends the response of a rejection through `onReject`, or a `401` if it throws or its promise rejects.
+   */
+  respond: (rejection: TruesignRejection, req: TruesignRequestInput, res: TruesignReply) => void;
+  /**
+   * Injects the token and its info into the `injectInto` and `injectInfoInto` properties of `target`. Nothing is
+   * injected in `off` mode.
+   */
+  inject: (target: object, outcome: Extract<TruesignOutcome, { proceed: true }>) => void;
+};
+
+function rejected(rejection: TruesignRejection): TruesignDecision {
+  return { accepted: false, rejection };
+}
+
+/**
+ * Validates the config and builds the framework-neutral functions every adapter is built on.
+ */
+function createTruesignEvaluator<AdditionalConfig extends Record<string, unknown>>(
+  config: TruesignHookConfig<AdditionalConfig>,
+): TruesignEvaluator {
+  const mode = getTruesignMode(config);
+  const injectInto = config.injectInto || 'ts-token';
+  const injectInfoInto = config.injectInfoInto || 'ts-token-info';
+
+  const inject: TruesignEvaluator['inject'] = (target, { token, info }) => {
+    if (info === null) {
+      return;
+    }
+    // `injectInto` is an arbitrary key, so it can't be typed here. `truesignPlugin` injects into the decorated (and
+    // typed) `request.truesign` instead.
+    (target as Record<string, unknown>)[injectInto] = token;
+    (target as Record<string, unknown>)[injectInfoInto] = info;
+  };
+
+  if (mode === 'off') {
+    return {
+      evaluate: () => ({ proceed: true, token: null, info: null }),
+      respond: (_rejection, _req, res) => {
+        res.code(401).send();
+      },
+      inject,
     };
   }
 
-  if (!config.encryptionKey) {
-    throw new Error('`encryptionKey` is required when `allowUnauthenticated` is false');
+  if (config.encryptionKeys) {
+    if (config.encryptionKey) {
+      throw new Error('`encryptionKey` and `encryptionKeys` can\'t be used together');
+    }
+    assertValidKeyring(config.encryptionKeys);
+  } else if (!config.encryptionKey) {
+    throw new Error(config.mode === undefined
+      ? '`encryptionKey` is required when `allowUnauthenticated` is false'
+      : '`encryptionKey` is required unless `mode` is `off`');
   }
 
   const shouldAcceptToken = config.shouldAcceptToken ?? (() => true);
   const extractToken = config.extractToken ?? extractTrueSignToken();
-  const decryptFunction = config.decryptFunction ?? decryptTruesignToken;
-  const injectInto = config.injectInto || 'ts-token';
+  const onReject = config.onReject ?? defaultOnReject;
+  const events = config.events ?? {};
+  const sampleLog = config.logSampling === false ? null : createLogSampler(config.logSampling);
+  const now = config.now ?? Date.now;
+  const checkFreshness = config.maxTokenAgeMs === undefined ? null : getFreshnessCheck({
+    maxTokenAgeMs: config.maxTokenAgeMs,
+    allowedClockSkewMs: config.allowedClockSkewMs,
+    now: config.now,
+  });
+  const checkReplay = config.replayProtection ? getReplayGuard(config.replayProtection) : null;
+  const checkRateLimit = config.rateLimit ? getRateLimitCheck(config.rateLimit) : null;
+  const scoreRisk = config.risk ? createTruesignRiskScorer(config.risk) : null;
+  const recordAudit = config.audit ? getAuditRecorder(config.audit, now) : null;
+  const matchBypass = config.bypass ? getBypassMatcher(config.bypass, config.ipBinding) : null;
+  const getClientIp = getClientIpResolver(config.ipBinding ?? {});
+  const sessions = config.session ? getSessionManager(config.session, getClientIp, now) : null;
+  const challengeResponse = config.risk ? getRiskChallengeResponse(config.risk) : undefined;
+  const tokenCache = config.cache
+    ? createTokenCache<{ token: DecryptedToken; keyId: string | null }>(config.cache)
+    : null;
+  // Keyed by the cached token objects, so policy results live as long as their token stays in `tokenCache`
+  const cachedPolicies = config.cache?.cacheDecision ? new WeakMap<DecryptedToken, PolicyResult>() : null;
+  const checkIpBinding = config.ipBinding ? getIpBindingCheck(config.ipBinding) : null;
+  const checkEmailBinding = config.emailBinding ? getEmailBindingCheck(config.emailBinding) : null;
+  const checkMetaBinding = config.metaBinding ? getMetaBindingCheck(config.metaBinding) : null;
+  // Custom `shouldAcceptToken` functions and `policyRule`s need the whole token, so they can't check a session verdict
+  const evaluateSessionPolicy = config.shouldAcceptToken === undefined
+    ? (): PolicyResult => ({ accepted: true })
+    : (isTruesignPolicy(config.shouldAcceptToken) && config.shouldAcceptToken.evaluateSession) || null;
+  // Neither can `meta` or function rate limit keys, and the cookie can't be matched like the email or `meta` of a token
+  const acceptsSessions = checkEmailBinding === null && checkMetaBinding === null
+    && (!config.rateLimit || canLimitSessions(config.rateLimit));
 
-  return (req, res, next) => {
-    try {
-      if (!isRecord(req.query)) {
-        throw new Error('`req.query` is not a record');
+  if (config.replayProtection && config.maxTokenAgeMs !== undefined) {
+    const tokenLifetimeMs = config.maxTokenAgeMs + (config.allowedClockSkewMs ?? DEFAULT_ALLOWED_CLOCK_SKEW_MS);
+    if (config.replayProtection.windowMs < tokenLifetimeMs) {
+      throw new Error('`replayProtection.windowMs` must be at least `maxTokenAgeMs` + `allowedClockSkewMs`');
+    }
+  }
+
+  // Keys are decoded once, so a key of the wrong length or encoding fails here instead of on every request
+  const keyBytes: Record<string, Buffer> = {};
+  if (!config.decryptFunction) {
+    if (config.encryptionKeys) {
+      config.encryptionKeys.forEach(({ id, key, encoding }) => {
+        keyBytes[id] = parseEncryptionKey(key, encoding, `encryptionKeys.${id}`);
+      });
+    } else {
+      keyBytes[''] = parseEncryptionKey(config.encryptionKey as string, config.encryptionKeyEncoding);
+    }
+  }
+
+  const decryptWith = (encryptionKey: TruesignEncryptionKey, token: string): MaybePromise<DecryptResult> => {
+    if (!config.decryptFunction) {
+      return decryptWithKey(keyBytes[encryptionKey.id], token);
+    }
+    return chain(config.decryptFunction(encryptionKey.key, token), (decryptedToken): DecryptResult => (
+      decryptedToken === null
+        ? { ok: false, rejection: { reason: 'decrypt_failed', detail: '`decryptFunction` returned null' } }
+        : { ok: true, token: decryptedToken, keyId: null }
+    ));
+  };
+
+  const decrypt = (token: string): MaybePromise<DecryptResult> => {
+    if (config.encryptionKeys) {
+      return decryptWithKeyring(config.encryptionKeys, now(), (encryptionKey) => decryptWith(encryptionKey, token));
+    }
+    return decryptWith({ id: '', key: config.encryptionKey as string }, token);
+  };
+
+  const decryptCached = (token: string): MaybePromise<DecryptResult> => {
+    if (tokenCache === null) {
+      return decrypt(token);
+    }
+
+    const cached = tokenCache.get(token);
+    if (cached !== undefined) {
+      // A token decrypted with a key that has been retired since must be decrypted again, so it's rejected
+      const { keyId } = cached;
+      if (keyId === null || !config.encryptionKeys
+        || getActiveKeys(config.encryptionKeys, now()).some((key) => key.id === keyId)) {
+        return { ok: true, token: cached.token, keyId };
+      }
+      tokenCache.delete(token);
+    }
+
+    return chain(decrypt(token), (result) => {
+      if (result.ok === true) {
+        tokenCache.set(token, { token: Object.freeze(result.token), keyId: result.keyId });
+      }
+      return result;
+    });
+  };
+
+  const evaluatePolicy = (decryptedToken: DecryptedToken): MaybePromise<PolicyResult> => {
+    const cachedPolicy = cachedPolicies === null ? undefined : cachedPolicies.get(decryptedToken);
+    if (cachedPolicy !== undefined) {
+      return cachedPolicy;
+    }
+    if (cachedPolicies === null) {
+      return evaluateUncachedPolicy(decryptedToken);
+    }
+    return chain(evaluateUncachedPolicy(decryptedToken), (policyResult) => {
+      cachedPolicies.set(decryptedToken, policyResult);
+      return policyResult;
+    });
+  };
+
+  const evaluateUncachedPolicy = (decryptedToken: DecryptedToken): MaybePromise<PolicyResult> => {
+    if (isTruesignPolicy(shouldAcceptToken)) {
+      return shouldAcceptToken.evaluate(decryptedToken);
+    }
+    return chain(shouldAcceptToken(decryptedToken, config), (accepted): PolicyResult => (
+      accepted ? { accepted: true } : { accepted: false, failedRules: [] }
+    ));
+  };
+
+  const checkLimits = (
+    req: TruesignRequestInput,
+    subject: RateLimitSubject,
+  ): MaybePromise<TruesignRejection | null> => {
+    if (checkRateLimit === null) {
+      return null;
+    }
+
+    return checkRateLimit(subject, req).then((violation): TruesignRejection | null => (
+      violation === null
+        ? null
+        : {
+          reason: 'rate_limited',
+          detail: `Rate limit \`${violation.rule}\` exceeded`,
+          retryAfterMs: violation.retryAfterMs,
+        }
+    ));
+  };
+
+  const checkVerdict = (
+    policy: MaybePromise<PolicyResult>,
+    risk: RiskAssessment | null,
+  ): MaybePromise<TruesignRejection | null> => (
+    chain(policy, (policyResult): TruesignRejection | null => {
+      if (policyResult.accepted === false) {
+        return { reason: policyRejectionReason(policyResult.failedRules) };
+      }
+
+      if (risk !== null && risk.tier !== 'allow') {
+        const detail = `Risk score ${risk.score} is in the \`${risk.tier}\` tier`;
+        return risk.tier === 'block'
+          ? { reason: 'risk_blocked', detail, risk }
+          : { reason: 'risk_challenge', detail, risk, challenge: challengeResponse };
+      }
+      return null;
+    })
+  );
+
+  const checkAcceptance = (
+    req: TruesignRequestInput,
+    decryptedToken: DecryptedToken,
+    info: TruesignRequestInfo,
+  ): MaybePromise<TruesignDecision> => (
+    chain(checkVerdict(evaluatePolicy(decryptedToken), info.risk), (rejection): MaybePromise<TruesignDecision> => {
+      if (rejection !== null) {
+        return rejected(rejection);
+      }
+
+      if (checkReplay !== null && typeof decryptedToken.requestId !== 'number') {
+        return rejected({ reason: 'invalid_payload', detail: '`requestId` must be a number' });
       }
 
-      const tsToken = extractToken(req);
+      // The token is only recorded once the limits pass, so a rate limited token can be sent again after `Retry-After`
+      return chain(checkLimits(req, { token: decryptedToken }), (limitRejection): MaybePromise<TruesignDecision> => {
+        if (limitRejection !== null) {
+          return rejected(limitRejection);
+        }
+        const decision: TruesignDecision = { accepted: true, token: decryptedToken, info };
+        if (checkReplay === null) {
+          return decision;
+        }
+        return checkReplay(decryptedToken.requestId).then((firstUse) => (
+          firstUse ? decision : rejected({ reason: 'token_replayed' })
+        ));
+      });
+    })
+  );
+
+  const checkToken = (
+    req: TruesignRequestInput,
+    decryptedToken: DecryptedToken,
+    info: TruesignRequestInfo,
+  ): MaybePromise<TruesignDecision> => {
+    if (checkFreshness !== null) {
+      const freshness = checkFreshness(decryptedToken.timestamp);
+      if (freshness !== 'fresh') {
+        return rejected({ reason: FRESHNESS_REJECTION_REASONS[freshness] });
+      }
+    }
+
+    if (checkIpBinding !== null) {
+      const ipMismatch = checkIpBinding(decryptedToken, req);
+      if (ipMismatch !== null) {
+        return rejected({ reason: 'ip_mismatch', detail: ipMismatch });
+      }
+    }
+
+    if (checkEmailBinding !== null) {
+      const emailMismatch = checkEmailBinding(decryptedToken, req);
+      if (emailMismatch !== null) {
+        return rejected({ reason: 'email_mismatch', detail: emailMismatch });
+      }
+    }
+
+    const metaMismatch = checkMetaBinding === null ? null : checkMetaBinding(decryptedToken, req);
+    return chain(metaMismatch, (mismatch) => (
+      mismatch === null
+        ? checkAcceptance(req, decryptedToken, info)
+        : rejected({ reason: 'meta_mismatch', detail: mismatch })
+    ));
+  };
+
+  const evaluateUnsafe = (req: TruesignRequestInput): MaybePromise<TruesignDecision> => {
+    if (!isRecord(req.query)) {
+      throw new Error('`req.query` is not a record');
+    }
+
+    return chain(extractToken(req), (tsToken) => {
       if (typeof tsToken !== 'string' || !tsToken) {
-        return res.code(401).send();
+        return rejected({ reason: 'missing_token' });
       }
 
-      const decryptedToken = decryptFunction(config.encryptionKey, tsToken);
-      if (decryptedToken === null || !shouldAcceptToken(decryptedToken, config)) {
-        return res.code(401).send();
+      return chain(decryptCached(tsToken), (decryption) => {
+        if (decryption.ok === false) {
+          return rejected(decryption.rejection);
+        }
+
+        const emailTypo = getEmailTypoSuggestion(decryption.token);
+        const risk = scoreRisk === null ? null : scoreRisk(decryption.token);
+        const info: TruesignRequestInfo = { ...EMPTY_REQUEST_INFO, keyId: decryption.keyId, emailTypo, risk };
+        return chain(checkToken(req, decryption.token, info), (decision): TruesignDecision => {
+          if (decision.accepted === true) {
+            return decision;
+          }
+          const rejection = emailTypo === null ? decision.rejection : { ...decision.rejection, emailTypo };
+          return { accepted: false, rejection, token: decryption.token, info };
+        });
+      });
+    });
+  };
+
+  const internalError = (error: unknown): TruesignDecision => rejected({ reason: 'internal_error', error });
+
+  const getLogger = (req: TruesignRequestInput): TruesignLogger => config.logger ?? req.log ?? consoleLogger;
+
+  const log = (
+    req: TruesignRequestInput,
+    level: TruesignLogLevel,
+    sampleKey: string,
+    fields: Record<string, unknown>,
+    msg: string,
+  ): void => {
+    const sample = sampleLog === null ? { log: true, suppressed: 0 } : sampleLog(sampleKey);
+    if (sample.log) {
+      getLogger(req)[level]({ truesign: fields, ...(sample.suppressed ? { suppressed: sample.suppressed } : {}) }, msg);
+    }
+  };
+
+  const emit = <Event>(
+    req: TruesignRequestInput,
+    handler: ((event: Event) => void) | undefined,
+    event: Event,
+  ): void => {
+    if (!handler) {
+      return;
+    }
+    try {
+      handler(event);
+    } catch (error) {
+      getLogger(req).error({ err: error }, 'Error in Truesign event handler');
+    }
+  };
+
+  const audit = (req: TruesignRequestInput, decision: AuditDecision): void => {
+    if (recordAudit === null) {
+      return;
+    }
+    try {
+      recordAudit(req, decision);
+    } catch (error) {
+      getLogger(req).error({ err: error }, 'Error in Truesign audit sink');
+    }
+  };
+
+  const notifyRejection = (req: TruesignRequestInput, rejection: TruesignRejection, enforced: boolean): void => {
+    const { reason, detail, error } = rejection;
+    const fields = { reason, detail, err: error, ...(enforced ? {} : { mode: 'report' }) };
+    log(req, rejectionLogLevel(reason), reason, fields, 'Truesign token rejected');
+
+    if (reason === 'missing_token') {
+      emit(req, events.onTokenMissing, { req, rejection, enforced });
+    } else if (reason === 'decrypt_failed' || reason === 'invalid_payload') {
+      emit(req, events.onDecryptFailure, { req, rejection, enforced });
+    }
+    emit(req, events.onRejected, { req, rejection, enforced });
+  };
+
+  const decide = (req: TruesignRequestInput): MaybePromise<TruesignDecision> => {
+    try {
+      const decision = evaluateUnsafe(req);
+      return isPromiseLike(decision) ? decision.then(undefined, internalError) : decision;
+    } catch (error) {
+      return internalError(error);
+    }
+  };
+
+  // Runs an optional step whose errors are logged and replaced by `fallback`, so they never reject the request by
+  // themselves
+  const withFallback = <Result>(
+    req: TruesignRequestInput,
+    run: () => MaybePromise<Result>,
+    fallback: Result,
+    msg: string,
+  ): MaybePromise<Result> => {
+    const onError = (error: unknown): Result => {
+      getLogger(req).error({ err: error }, msg);
+      return fallback;
+    };
+    try {
+      const result = run();
+      return isPromiseLike(result) ? result.then(undefined, onError) : result;
+    } catch (error) {
+      return onError(error);
+    }
+  };
+
+  const findBypass = (req: TruesignRequestInput): MaybePromise<string | null> => {
+    if (matchBypass === null) {
+      return null;
+    }
+    return withFallback(req, () => chain(matchBypass(req), ({ rule, errors }) => {
+      errors.forEach(({ rule: failedRule, error }) => {
+        getLogger(req).error({ err: error, truesign: { bypass: failedRule } }, 'Error in Truesign bypass rule');
+      });
+      return rule;
+    }), null, 'Error in Truesign bypass rule');
+  };
+
+  const readSession = (req: TruesignRequestInput): MaybePromise<SessionCheck> => {
+    const noSession: SessionCheck = { session: null, problem: null };
+    if (sessions === null || checkSession === null) {
+      return noSession;
+    }
+    return withFallback(req, () => sessions.read(req), noSession, 'Error reading the Truesign session');
+  };
+
+  // The verdict of the cookie goes through the same policy, risk and rate limits as the token it was issued for, with
+  // the IP of the client it's bound to
+  const checkSession = !acceptsSessions || evaluateSessionPolicy === null ? null : (
+    req: TruesignRequestInput,
+    session: TruesignSession,
+    info: TruesignRequestInfo,
+  ): MaybePromise<TruesignRejection | null> => withFallback(req, () => (
+    chain(checkVerdict(evaluateSessionPolicy(session), info.risk), (rejection) => (
+      rejection === null ? checkLimits(req, { session, ip: getClientIp(req) }) : rejection
+    ))
+  ), { reason: 'internal_error' }, 'Error checking the Truesign session');
+
+  const acceptSession = (req: TruesignRequestInput, info: TruesignRequestInfo): TruesignOutcome => {
+    const clusterId = info.session === null ? null : info.session.clusterId;
+    log(req, 'debug', 'session', { clusterId }, 'Truesign session accepted');
+    emit(req, events.onAccepted, { req, token: null, info });
+    audit(req, { outcome: 'accepted', reason: null, token: null, info });
+    return { proceed: true, token: null, info };
+  };
+
+  // Without a token, the reason the session cookie wasn't accepted is a better explanation than the missing token
+  const decideOnToken = (
+    req: TruesignRequestInput,
+    sessionRejection: TruesignRejection | null,
+  ): MaybePromise<TruesignOutcome> => chain(decide(req), (decision) => toOutcome(req, (
+    sessionRejection !== null && decision.accepted === false && decision.rejection.reason === 'missing_token'
+      ? { accepted: false, rejection: sessionRejection }
+      : decision
+  )));
+
+  const bypass = (req: TruesignRequestInput, rule: string): TruesignOutcome => {
+    const info: TruesignRequestInfo = { ...EMPTY_REQUEST_INFO, bypass: rule };
+    log(req, 'info', 'bypassed', { bypass: rule }, 'Truesign check bypassed');
+    emit(req, events.onBypassed, { req, rule });
+    audit(req, { outcome: 'bypassed', reason: null, token: null, info });
+    return { proceed: true, token: null, info };
+  };
+
+  const toOutcome = (req: TruesignRequestInput, decision: TruesignDecision): MaybePromise<TruesignOutcome> => {
+    if (decision.accepted === true) {
+      const fields = { requestId: decision.token.requestId, keyId: decision.info.keyId };
+      log(req, 'debug', 'accepted', fields, 'Truesign token accepted');
+      emit(req, events.onAccepted, { req, token: decision.token, info: decision.info });
+      audit(req, { outcome: 'accepted', reason: null, token: decision.token, info: decision.info });
+      if (sessions === null) {
+        return { proceed: true, token: decision.token, info: decision.info };
+      }
+
+      const { token, info } = decision;
+      const issue = () => sessions.issue(req, token);
+      return chain(withFallback(req, issue, null, 'Error issuing the Truesign session'), (sessionCookie) => (
+        sessionCookie === null ? { proceed: true, token, info } : { proceed: true, token, info, sessionCookie }
+      ));
+    }
+
+    const { reason } = decision.rejection;
+    if (mode === 'report') {
+      // The request is let through with the would-be decision injected
+      notifyRejection(req, decision.rejection, false);
+      audit(req, { outcome: 'reported', reason, token: decision.token ?? null, info: decision.info ?? null });
+      const info = decision.info ?? EMPTY_REQUEST_INFO;
+      return { proceed: true, token: decision.token ?? null, info: { ...info, rejection: decision.rejection } };
+    }
+
+    notifyRejection(req, decision.rejection, true);
+    audit(req, { outcome: 'rejected', reason, token: decision.token ?? null, info: decision.info ?? null });
+    return { proceed: false, rejection: decision.rejection };
+  };
+
+  return {
+    // Bypass rules are tried first, so trusted clients don't need a token at all, then the session cookie
+    evaluate: (req) => chain(findBypass(req), (rule) => {
+      if (rule !== null) {
+        return bypass(req, rule);
       }
+      return chain(readSession(req), ({ session, problem }) => {
+        if (session === null || checkSession === null) {
+          return decideOnToken(req, problem === null ? null : { reason: 'session_invalid', detail: problem });
+        }
+        const info: TruesignRequestInfo = {
+          ...EMPTY_REQUEST_INFO,
+          risk: scoreRisk === null ? null : scoreRisk(session),
+          session,
+        };
+        return chain(checkSession(req, session, info), (rejection) => {
+          if (rejection === null) {
+            return acceptSession(req, info);
+          }
+          // A rate limited client is rejected right away, so its token isn't counted against the limits again
+          if (rejection.reason === 'rate_limited') {
+            return toOutcome(req, rejected(rejection));
+          }
+          // The verdict doesn't meet the policy or risk of the route, so the request needs a token that does
+          return decideOnToken(req, rejection);
+        });
+      });
+    }),
+    respond: (rejection, req, res) => sendRejection(onReject, getLogger(req), rejection, req, res),
+    inject,
+  };
+}
+
+function sendRejection(
+  onReject: RejectFunction,
+  logger: TruesignLogger,
+  rejection: TruesignRejection,
+  req: TruesignRequestInput,
+  res: TruesignReply,
+): void {
+  const onError = (error: unknown): void => {
+    logger.error({ err: error }, 'Error in Truesign `onReject`');
+    res.code(401).send();
+  };
+  try {
+    // An async `onReject` still fits the `void` return type, so its rejections must be caught too
+    const result: unknown = onReject(rejection, req, res);
+    if (isPromiseLike(result)) {
+      result.then(undefined, onError);
+    }
+  } catch (error) {
+    onError(error);
+  }
+}
+
+/**
+ * Checks a request and acts on the outcome: injects the token into `target` (the request by default) and resolves
+ * `true` if the request can go on, or sends the rejection through `reply` and resolves `false`.
+ *
+ * It's synchronous when every configured function is, and never throws nor rejects.
+ */
+export type TruesignRequestHandler = (
+  req: TruesignRequestInput,
+  reply: TruesignReply,
+  target?: object,
+) => MaybePromise<boolean>;
 
-      // @todo Figure out a better way to inject this in the request without type casting
-      //       It's not clear how decorator typing works inside hooks
-      (req as unknown as Record<string, unknown>)[injectInto] = decryptedToken;
-      next();
+/**
+ * Builds the framework-neutral handler the adapters are made of, for frameworks without a built-in adapter.
+ *
+ * @param config TruesignHookConfig
+ * @returns TruesignRequestHandler
+ * @throws Error if the config is not valid
+ */
+export function createTruesignRequestHandler<AdditionalConfig extends Record<string, unknown> = {}>(
+  config: TruesignHookConfig<AdditionalConfig>,
+): TruesignRequestHandler {
+  const { evaluate, respond, inject } = createTruesignEvaluator(config);
+
+  return (req, reply, target = req) => chain(evaluate(req), (outcome) => {
+    if (outcome.proceed === false) {
+      respond(outcome.rejection, req, reply);
+      return false;
+    }
+    if (outcome.sessionCookie !== undefined) {
+      reply.header('Set-Cookie', outcome.sessionCookie);
+    }
+    inject(target, outcome);
+    return true;
+  });
+}
+
+// Evaluators keep state (replay and rate limit stores, caches, log sampling), so they're built once per config
+const evaluators = new WeakMap<object, TruesignEvaluator>();
+
+/**
+ * Checks the token of a request without responding nor injecting anything, e.g. to use Truesign outside of an HTTP
+ * framework. Decisions are logged and notified through `events`, and the mode is applied.
+ *
+ * The config is validated on the first call, and later calls with the same config object share its stores.
+ *
+ * @param input The request fields read by the checks
+ * @param config TruesignHookConfig
+ * @returns Promise of the TruesignOutcome. It never rejects, but the first call throws if the config is not valid.
+ */
+export function evaluateTruesignRequest<AdditionalConfig extends Record<string, unknown> = {}>(
+  input: TruesignRequestInput,
+  config: TruesignHookConfig<AdditionalConfig>,
+): Promise<TruesignOutcome> {
+  let evaluator = evaluators.get(config);
+  if (evaluator === undefined) {
+    evaluator = createTruesignEvaluator(config);
+    evaluators.set(config, evaluator);
+  }
+  return Promise.resolve(evaluator.evaluate(input));
+}
+
+type TruesignCallbackHook = (req: TruesignRequestInput, res: TruesignReply, next: TruesignHookDoneFunction) => void;
+
+type TruesignAsyncHook = (req: TruesignRequestInput, res: TruesignReply) => Promise<TruesignReply | void>;
+
+/**
+ * The hooks returned by {@link getTruesignHook} and {@link getAsyncTruesignHook}.
+ */
+export type TruesignHook<Hook> = Hook & {
+  /**
+   * Fastify `onRoute` hook that builds and validates the {@link TruesignRouteConfig} of each route as it's registered,
+   * so invalid overrides fail at startup. Without it, overrides are built on the first request to each route, and
+   * every request to a route with invalid overrides is rejected with `internal_error`.
+   *
+   * ```
+   * fastify.addHook('onRoute', truesignHook.onRoute);
+   * ```
+   */
+  onRoute: (routeOptions: TruesignRouteOptions) => void;
+  /**
+   * Fastify `onClose` hook that writes the records buffered by the {@link TruesignHookConfig.audit} sinks of the hook
+   * and of the route overrides.
+   *
+   * ```
+   * fastify.addHook('onClose', truesignHook.onClose);
+   * ```
+   */
+  onClose: (instance: unknown, done: () => void) => void;
+};
+
+/**
+ * Adds the route overrides to a hook that `toHook` makes from a request handler: requests to routes with
+ * `config.truesign` are handled by a hook built from the merged config.
+ */
+function withRouteConfig<
+  Hook extends TruesignCallbackHook | TruesignAsyncHook,
+  AdditionalConfig extends Record<string, unknown>,
+>(
+  config: TruesignHookConfig<AdditionalConfig>,
+  toHook: (handle: TruesignRequestHandler) => Hook,
+): TruesignHook<Hook> {
+  const sharedConfig = withSharedStores(config);
+  // Routes can override the audit sink, so every sink built is closed by `onClose`
+  const auditSinks: TruesignAuditSink[] = [];
+  const build = (routeConfig: TruesignHookConfig<AdditionalConfig>): Hook => {
+    const hook = toHook(createTruesignRequestHandler(routeConfig));
+    const sink = routeConfig.audit?.sink;
+    if (sink && auditSinks.indexOf(sink) === -1) {
+      auditSinks.push(sink);
+    }
+    return hook;
+  };
+  const defaultHook = build(sharedConfig);
+  const getRouteHook = createRouteHookResolver(sharedConfig, build);
+
+  // Without the `onRoute` hook, invalid overrides are only found by the requests to their route. Those are rejected
+  // as internal errors, so the error message doesn't reach the client, and the route stays closed.
+  const rejectInvalidRoute = (error: unknown): Hook => toHook((req, reply) => {
+    const logger = config.logger ?? req.log ?? consoleLogger;
+    logger.error({ err: error }, 'Invalid Truesign config of the route');
+    const onReject = config.onReject ?? defaultOnReject;
+    sendRejection(onReject, logger, { reason: 'internal_error', detail: 'Invalid route config', error }, req, reply);
+    return false;
+  });
+
+  const hook = ((req: TruesignRequestInput, res: TruesignReply, next: TruesignHookDoneFunction) => {
+    let routeHook: Hook;
+    try {
+      routeHook = getRouteHook(res.context?.config) ?? defaultHook;
     } catch (error) {
-      console.error(error);
-      return res.code(401).send();
+      routeHook = rejectInvalidRoute(error);
     }
+    return (routeHook as TruesignCallbackHook)(req, res, next);
+  }) as TruesignHook<Hook>;
+
+  hook.onRoute = (routeOptions) => {
+    getRouteHook(routeOptions.config);
+  };
+  hook.onClose = (_instance, done) => {
+    const closing = auditSinks.map((sink) => (
+      sink.close ? sink.close().then(undefined, (error) => {
+        (config.logger ?? consoleLogger).error({ err: error }, 'Error closing the Truesign audit sink');
+      }) : undefined
+    ));
+    Promise.all(closing).then(() => done());
   };
+  return hook;
+}
+
+function toTruesignHook(handle: TruesignRequestHandler): TruesignCallbackHook {
+  return (req, res, next) => {
+    chain(handle(req, res), (proceed) => {
+      if (proceed) {
+        next();
+      }
+    });
+  };
+}
+
+function toAsyncTruesignHook(handle: TruesignRequestHandler): TruesignAsyncHook {
+  // Returning the reply tells Fastify that the response was already sent
+  return async (req, res) => ((await handle(req, res)) ? undefined : res);
+}
+
+/**
+ * Returns a Fastify hook that validates Truesign tokens and injects the decrypted token in the request.
+ *
+ * The hook uses the `next` callback style. It runs synchronously unless some configured function returns a promise
+ * (or `replayProtection` is enabled), in which case `next` is called once it resolves.
+ *
+ * Routes can override the config with `config: { truesign: { ... } }` in their options (see
+ * {@link TruesignRouteConfig}).
+ *
+ * @param config TruesignHookConfig
+ * @returns Fastify hook function
+ */
+export function getTruesignHook<AdditionalConfig extends Record<string, unknown> = {}>(
+  config: TruesignHookConfig<AdditionalConfig>
+): TruesignHook<TruesignCallbackHook> {
+  return withRouteConfig(config, toTruesignHook);
+};
+
+/**
+ * Returns an async Fastify hook that validates Truesign tokens and injects the decrypted token in the request.
+ *
+ * Same as {@link getTruesignHook}, but for projects that prefer `async` hooks over the `next` callback style.
+ *
+ * @param config TruesignHookConfig
+ * @returns Async Fastify hook function
+ */
+export function getAsyncTruesignHook<AdditionalConfig extends Record<string, unknown> = {}>(
+  config: TruesignHookConfig<AdditionalConfig>
+): TruesignHook<TruesignAsyncHook> {
+  return withRouteConfig(config, toAsyncTruesignHook);
 };
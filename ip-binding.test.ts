@@ -0,0 +1,139 @@
+/// <reference types="./fastify.d.ts" />
+
+import type { DecryptedToken } from './index';
+import { getCidrMatcher, getClientIpResolver, getIpBindingCheck, normalizeIp } from './ip-binding';
+
+function makeRequest(ip: string, forwardedFor?: string | string[]): FastifyRequest {
+  return {
+    query: {},
+    headers: forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor },
+    ip,
+  };
+}
+
+function makeToken(ip: { ipv4: string } | { ipv6: string }): DecryptedToken {
+  return { bot: 0, anonymizer: 0, clusterId: 0, requestId: 1, timestamp: 0, country: 'ES', ...ip };
+}
+
+describe('`normalizeIp`', () => {
+  test('IPv4', () => {
+    expect(normalizeIp('203.0.113.7')).toBe('203.0.113.7');
+  });
+
+  test('Compressed and expanded IPv6', () => {
+    const expanded = '2001:0db8:0000:0000:0000:ff00:0042:8329';
+    expect(normalizeIp('2001:db8::ff00:42:8329')).toBe(expanded);
+    expect(normalizeIp('2001:DB8:0:0:0:FF00:42:8329')).toBe(expanded);
+    expect(normalizeIp(expanded)).toBe(expanded);
+    expect(normalizeIp('::1')).toBe('0000:0000:0000:0000:0000:0000:0000:0001');
+    expect(normalizeIp('::')).toBe('0000:0000:0000:0000:0000:0000:0000:0000');
+    expect(normalizeIp('fe80::1%eth0')).toBe('fe80:0000:0000:0000:0000:0000:0000:0001');
+  });
+
+  test('IPv4-mapped IPv6', () => {
+    expect(normalizeIp('::ffff:203.0.113.7')).toBe('203.0.113.7');
+    expect(normalizeIp('::ffff:cb00:7107')).toBe('203.0.113.7');
+    expect(normalizeIp('0000:0000:0000:0000:0000:ffff:cb00:7107')).toBe('203.0.113.7');
+  });
+
+  test('Embedded IPv4 that is not mapped', () => {
+    expect(normalizeIp('64:ff9b::203.0.113.7')).toBe('0064:ff9b:0000:0000:0000:0000:cb00:7107');
+  });
+
+  test('Invalid addresses', () => {
+    expect(normalizeIp('')).toBeNull();
+    expect(normalizeIp('300.1.1.1')).toBeNull();
+    expect(normalizeIp('2001:db8::1::1')).toBeNull();
+  });
+});
+
+describe('`getCidrMatcher`', () => {
+  test('Matching IPs and CIDRs', () => {
+    const matches = getCidrMatcher(['10.0.0.0/8', '192.168.1.1', '2001:db8::/32']);
+
+    expect(matches('10.1.2.3')).toBe(true);
+    expect(matches('::ffff:10.1.2.3')).toBe(true);
+    expect(matches('11.0.0.1')).toBe(false);
+    expect(matches('192.168.1.1')).toBe(true);
+    expect(matches('192.168.1.2')).toBe(false);
+    expect(matches('2001:db8:1234::1')).toBe(true);
+    expect(matches('2001:db9::1')).toBe(false);
+    expect(matches('not an ip')).toBe(false);
+  });
+
+  test('Not allowing invalid CIDRs', () => {
+    expect(() => getCidrMatcher(['10.0.0.0/33'])).toThrow('Invalid IP or CIDR: 10.0.0.0/33');
+    expect(() => getCidrMatcher(['foo'])).toThrow('Invalid IP or CIDR: foo');
+  });
+});
+
+describe('`getClientIpResolver`', () => {
+  test('Using `req.ip` by default', () => {
+    expect(getClientIpResolver({})(makeRequest('203.0.113.7', '198.51.100.1'))).toBe('203.0.113.7');
+  });
+
+  test('Ignoring `X-Forwarded-For` from untrusted peers', () => {
+    const getClientIp = getClientIpResolver({ trustedProxies: ['10.0.0.0/8'] });
+    expect(getClientIp(makeRequest('203.0.113.7', '198.51.100.1'))).toBe('203.0.113.7');
+  });
+
+  test('Taking the right-most untrusted `X-Forwarded-For` entry', () => {
+    const getClientIp = getClientIpResolver({ trustedProxies: ['10.0.0.0/8'] });
+
+    expect(getClientIp(makeRequest('10.0.0.1', '198.51.100.1'))).toBe('198.51.100.1');
+    expect(getClientIp(makeRequest('10.0.0.1', '1.1.1.1, 198.51.100.1, 10.0.0.2'))).toBe('198.51.100.1');
+    expect(getClientIp(makeRequest('10.0.0.1', ['1.1.1.1', '198.51.100.1, 10.0.0.2']))).toBe('198.51.100.1');
+    expect(getClientIp(makeRequest('10.0.0.1', '10.0.0.3, 10.0.0.2'))).toBe('10.0.0.3');
+    expect(getClientIp(makeRequest('10.0.0.1'))).toBe('10.0.0.1');
+  });
+
+  test('Using a custom function', () => {
+    const getClientIp = getClientIpResolver({ getClientIp: (req) => req.headers['cf-connecting-ip'] as string });
+    expect(getClientIp({ ...makeRequest('10.0.0.1'), headers: { 'cf-connecting-ip': '198.51.100.1' } }))
+      .toBe('198.51.100.1');
+  });
+});
+
+describe('`getIpBindingCheck`', () => {
+  test('Matching the same IP in any notation', () => {
+    const checkIpBinding = getIpBindingCheck({});
+
+    expect(checkIpBinding(makeToken({ ipv4: '203.0.113.7' }), makeRequest('203.0.113.7'))).toBeNull();
+    expect(checkIpBinding(makeToken({ ipv4: '203.0.113.7' }), makeRequest('::ffff:203.0.113.7'))).toBeNull();
+    expect(checkIpBinding(
+      makeToken({ ipv6: '2001:0db8:0000:0000:0000:0000:0000:0001' }),
+      makeRequest('2001:db8::1'),
+    )).toBeNull();
+  });
+
+  test('Rejecting different IPs', () => {
+    const checkIpBinding = getIpBindingCheck({});
+
+    expect(checkIpBinding(makeToken({ ipv4: '203.0.113.7' }), makeRequest('203.0.113.8')))
+      .toBe('The token was created for a different IP');
+    expect(checkIpBinding(makeToken({ ipv4: '203.0.113.7' }), makeRequest('2001:db8::1')))
+      .toBe('The token was created for a different IP');
+    expect(checkIpBinding(makeToken({ ipv4: '203.0.113.7' }), makeRequest('')))
+      .toBe('The client IP is unknown');
+  });
+
+  test('Tolerating prefixes', () => {
+    const checkIpBinding = getIpBindingCheck({ ipv4Prefix: 24, ipv6Prefix: 64 });
+
+    expect(checkIpBinding(makeToken({ ipv4: '203.0.113.7' }), makeRequest('203.0.113.200'))).toBeNull();
+    expect(checkIpBinding(makeToken({ ipv4: '203.0.113.7' }), makeRequest('203.0.114.7'))).not.toBeNull();
+    expect(checkIpBinding(
+      makeToken({ ipv6: '2001:0db8:0001:0002:0000:0000:0000:0001' }),
+      makeRequest('2001:db8:1:2:aaaa::5'),
+    )).toBeNull();
+    expect(checkIpBinding(
+      makeToken({ ipv6: '2001:0db8:0001:0002:0000:0000:0000:0001' }),
+      makeRequest('2001:db8:1:3::1'),
+    )).not.toBeNull();
+  });
+
+  test('Not allowing invalid prefixes', () => {
+    expect(() => getIpBindingCheck({ ipv4Prefix: 33 })).toThrow('`ipBinding.ipv4Prefix` must be between 0 and 32');
+    expect(() => getIpBindingCheck({ ipv6Prefix: -1 })).toThrow('`ipBinding.ipv6Prefix` must be between 0 and 128');
+  });
+});
@@ -0,0 +1,274 @@
+import * as net from 'node:net';
+
+import type { DecryptedToken, TruesignRequestInput } from './index';
+
+/**
+ * A parsed IP address. IPv4-mapped IPv6 addresses (`::ffff:1.2.3.4`) are parsed as IPv4.
+ */
+export type ParsedIp = {
+  version: 4 | 6;
+  /** 4 bytes for IPv4, 16 for IPv6 */
+  bytes: number[];
+};
+
+export type IpBindingConfig = {
+  /**
+   * Proxies (IPs or CIDRs) allowed to set `X-Forwarded-For`. When the request comes from one of them, the client IP is
+   * the right-most `X-Forwarded-For` entry that isn't a trusted proxy.
+   *
+   * Leave Fastify's `trustProxy` disabled when using this option, so that `req.ip` is the address of the proxy.
+   *
+   * @default [] (`req.ip` is used as is)
+   */
+  trustedProxies?: string[];
+  /**
+   * Number of leading bits of IPv4 addresses that must match. Lower it to tolerate carriers that rotate addresses
+   * inside a range (e.g. `24`).
+   *
+   * @default 32
+   */
+  ipv4Prefix?: number;
+  /**
+   * Number of leading bits of IPv6 addresses that must match. `64` tolerates addresses of the same subnet, which is
+   * common for mobile devices using privacy extensions.
+   *
+   * @default 128
+   */
+  ipv6Prefix?: number;
+  /**
+   * Custom function to get the client IP from the request, replacing `req.ip` and {@link trustedProxies}.
+   */
+  getClientIp?: (req: TruesignRequestInput) => string | undefined;
+};
+
+function parseIpv4(ip: string): number[] {
+  return ip.split('.').map((part) => parseInt(part, 10));
+}
+
+/**
+ * Parses an IPv4 or IPv6 address, either compressed or expanded.
+ *
+ * @param ip IP address
+ * @returns ParsedIp, or `null` if `ip` is not a valid address
+ */
+export function parseIp(ip: string): ParsedIp | null {
+  // Zone ids (`fe80::1%eth0`) are local to the machine, so they're irrelevant here
+  const address = ip.trim().replace(/%.*$/, '');
+
+  if (net.isIPv4(address)) {
+    return { version: 4, bytes: parseIpv4(address) };
+  }
+  if (!net.isIPv6(address)) {
+    return null;
+  }
+
+  // Embedded IPv4 at the end (e.g. `::ffff:192.0.2.1`) is rewritten as the 2 hex groups it stands for
+  let rest = address;
+  const lastColon = rest.lastIndexOf(':');
+  if (rest.indexOf('.', lastColon) !== -1) {
+    const [a, b, c, d] = parseIpv4(rest.substring(lastColon + 1));
+    rest = `${rest.substring(0, lastColon + 1)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  let groups: string[];
+  const doubleColon = rest.indexOf('::');
+  if (doubleColon === -1) {
+    groups = rest.split(':');
+  } else {
+    const head = rest.substring(0, doubleColon).split(':').filter(Boolean);
+    const tail = rest.substring(doubleColon + 2).split(':').filter(Boolean);
+    const zeros: string[] = [];
+    for (let i = head.length + tail.length; i < 8; i++) {
+      zeros.push('0');
+    }
+    groups = head.concat(zeros, tail);
+  }
+
+  const bytes: number[] = [];
+  groups.forEach((group) => {
+    const value = parseInt(group, 16);
+    bytes.push(value >> 8, value & 0xff);
+  });
+
+  const isIpv4Mapped = bytes.slice(0, 10).every((byte) => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+  if (isIpv4Mapped) {
+    return { version: 4, bytes: bytes.slice(12) };
+  }
+
+  return { version: 6, bytes };
+}
+
+/**
+ * Normalizes an IP address so that equivalent notations compare equal: IPv6 addresses are returned in lowercase
+ * expanded form, and IPv4-mapped IPv6 addresses as plain IPv4.
+ *
+ * @param ip IP address
+ * @returns The normalized address, or `null` if `ip` is not a valid address
+ */
+export function normalizeIp(ip: string): string | null {
+  const parsed = parseIp(ip);
+  if (parsed === null) {
+    return null;
+  }
+
+  if (parsed.version === 4) {
+    return parsed.bytes.join('.');
+  }
+
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((parsed.bytes[i] << 8) | parsed.bytes[i + 1]).toString(16).padStart(4, '0'));
+  }
+  return groups.join(':');
+}
+
+/**
+ * Checks whether the first `prefix` bits of two addresses are the same. Addresses of different versions never match.
+ */
+export function isSamePrefix(a: ParsedIp, b: ParsedIp, prefix: number): boolean {
+  if (a.version !== b.version) {
+    return false;
+  }
+
+  for (let bit = 0; bit < prefix; bit += 8) {
+    const byteIndex = bit / 8;
+    const bits = Math.min(8, prefix - bit);
+    const mask = (0xff << (8 - bits)) & 0xff;
+    if ((a.bytes[byteIndex] & mask) !== (b.bytes[byteIndex] & mask)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+type Cidr = {
+  ip: ParsedIp;
+  prefix: number;
+};
+
+/**
+ * Parses an IP or CIDR (e.g. `10.0.0.0/8`, `2001:db8::/32`). A plain IP is a CIDR matching only itself.
+ *
+ * @param cidr IP or CIDR
+ * @returns Cidr
+ * @throws Error if `cidr` is not valid
+ */
+function parseCidr(cidr: string): Cidr {
+  const [address, prefixTxt] = cidr.split('/');
+  const ip = parseIp(address);
+  const maxPrefix = ip && ip.version === 4 ? 32 : 128;
+  const prefix = prefixTxt === undefined ? maxPrefix : Number(prefixTxt);
+
+  if (ip === null || !(prefix >= 0 && prefix <= maxPrefix) || Math.floor(prefix) !== prefix) {
+    throw new Error(`Invalid IP or CIDR: ${cidr}`);
+  }
+
+  return { ip, prefix };
+}
+
+/**
+ * Builds a function that checks whether an IP belongs to any of the given IPs or CIDRs.
+ *
+ * @param cidrs IPs or CIDRs
+ * @returns A function that receives an IP and returns whether it matches
+ * @throws Error if any of `cidrs` is not valid
+ */
+export function getCidrMatcher(cidrs: string[]): (ip: string) => boolean {
+  const parsedCidrs = cidrs.map(parseCidr);
+
+  return (ip) => {
+    const parsed = parseIp(ip);
+    return parsed !== null && parsedCidrs.some((cidr) => isSamePrefix(parsed, cidr.ip, cidr.prefix));
+  };
+}
+
+function getForwardedFor(req: TruesignRequestInput): string[] {
+  const header = req.headers['x-forwarded-for'];
+  const values = Array.isArray(header) ? header : header ? [header] : [];
+  return values
+    .join(',')
+    .split(',')
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Builds a function that resolves the IP of the client that sent the request.
+ *
+ * @param config IpBindingConfig
+ * @returns A function that receives the request and returns the client IP, if known
+ */
+export function getClientIpResolver(config: IpBindingConfig): (req: TruesignRequestInput) => string | undefined {
+  if (config.getClientIp) {
+    return config.getClientIp;
+  }
+
+  const trustedProxies = config.trustedProxies ?? [];
+  if (trustedProxies.length === 0) {
+    return (req) => req.ip;
+  }
+
+  const isTrustedProxy = getCidrMatcher(trustedProxies);
+  return (req) => {
+    if (!req.ip || !isTrustedProxy(req.ip)) {
+      return req.ip;
+    }
+
+    // Walk the chain from the closest hop, since only the entries added by trusted proxies can be trusted
+    const forwardedFor = getForwardedFor(req);
+    for (let i = forwardedFor.length - 1; i >= 0; i--) {
+      if (!isTrustedProxy(forwardedFor[i])) {
+        return forwardedFor[i];
+      }
+    }
+    return forwardedFor.length ? forwardedFor[0] : req.ip;
+  };
+}
+
+/**
+ * Returns the IP that Truesign saw when the token was created.
+ */
+export function getTokenIp(decryptedToken: DecryptedToken): string | undefined {
+  return 'ipv4' in decryptedToken ? decryptedToken.ipv4 : decryptedToken.ipv6;
+}
+
+/**
+ * Builds the function used by the hook to check that a token is presented by the client it was created for.
+ *
+ * @param config IpBindingConfig
+ * @returns A function that returns `null` if the IPs match, or the reason why they don't
+ */
+export function getIpBindingCheck(
+  config: IpBindingConfig,
+): (decryptedToken: DecryptedToken, req: TruesignRequestInput) => string | null {
+  const { ipv4Prefix = 32, ipv6Prefix = 128 } = config;
+
+  if (!(ipv4Prefix >= 0 && ipv4Prefix <= 32)) {
+    throw new Error('`ipBinding.ipv4Prefix` must be between 0 and 32');
+  }
+  if (!(ipv6Prefix >= 0 && ipv6Prefix <= 128)) {
+    throw new Error('`ipBinding.ipv6Prefix` must be between 0 and 128');
+  }
+
+  const getClientIp = getClientIpResolver(config);
+
+  return (decryptedToken, req) => {
+    const tokenIp = parseIp(getTokenIp(decryptedToken) ?? '');
+    if (tokenIp === null) {
+      return 'The token has no valid IP';
+    }
+
+    const clientIpTxt = getClientIp(req);
+    const clientIp = clientIpTxt ? parseIp(clientIpTxt) : null;
+    if (clientIp === null) {
+      return 'The client IP is unknown';
+    }
+
+    if (!isSamePrefix(tokenIp, clientIp, tokenIp.version === 4 ? ipv4Prefix : ipv6Prefix)) {
+      return 'The token was created for a different IP';
+    }
+
+    return null;
+  };
+}
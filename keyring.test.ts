@@ -0,0 +1,35 @@
+import { assertValidKeyring, getActiveKeys } from './keyring';
+
+describe('`assertValidKeyring`', () => {
+  test('Accepting a valid keyring', () => {
+    expect(() => assertValidKeyring([{ id: 'a', key: 'foo' }, { id: 'b', key: 'bar', notAfter: 0 }])).not.toThrow();
+  });
+
+  test('Not allowing empty keyrings', () => {
+    expect(() => assertValidKeyring([])).toThrow('`encryptionKeys` must contain at least one key');
+  });
+
+  test('Not allowing keys without id or key', () => {
+    expect(() => assertValidKeyring([{ id: '', key: 'foo' }])).toThrow('Every key in `encryptionKeys` must have an `id`');
+    expect(() => assertValidKeyring([{ id: 'a', key: '' }])).toThrow('Key `a` in `encryptionKeys` is empty');
+  });
+
+  test('Not allowing duplicated ids', () => {
+    expect(() => assertValidKeyring([{ id: 'a', key: 'foo' }, { id: 'a', key: 'bar' }]))
+      .toThrow('Duplicated key id in `encryptionKeys`: a');
+  });
+});
+
+describe('`getActiveKeys`', () => {
+  test('Filtering out keys past their `notAfter` date', () => {
+    const keyring = [
+      { id: 'a', key: 'foo', notAfter: 1000 },
+      { id: 'b', key: 'bar', notAfter: new Date(2000) },
+      { id: 'c', key: 'baz' },
+    ];
+
+    expect(getActiveKeys(keyring, 999).map(({ id }) => id)).toEqual(['a', 'b', 'c']);
+    expect(getActiveKeys(keyring, 1000).map(({ id }) => id)).toEqual(['b', 'c']);
+    expect(getActiveKeys(keyring, 5000).map(({ id }) => id)).toEqual(['c']);
+  });
+});
@@ -0,0 +1,74 @@
+import type { EncryptionKeyEncoding } from './encryption-key';
+
+/**
+ * One of the encryption keys of a keyring.
+ */
+export type TruesignEncryptionKey = {
+  /**
+   * Identifier of the key, recorded along with the tokens it decrypts. It must be unique in the keyring.
+   */
+  id: string;
+  /**
+   * Token encryption key, as listed in your [Truesign dashboard](https://my.truesign.ai/dashboard#endpoints).
+   */
+  key: string;
+  /**
+   * How {@link key} is decoded into the 32 bytes of the AES-256 key.
+   *
+   * @default 'raw'
+   */
+  encoding?: EncryptionKeyEncoding;
+  /**
+   * Date after which the key is no longer used, as a `Date` or a Unix epoch with millisecond resolution.
+   *
+   * Set it on the old key when rotating, so tokens encrypted with it stop being accepted once every client has
+   * switched to the new one.
+   *
+   * @default undefined (the key never expires)
+   */
+  notAfter?: Date | number;
+};
+
+/**
+ * Ordered list of encryption keys. Keys are tried in order, so the key most tokens are encrypted with should go first.
+ */
+export type TruesignKeyring = TruesignEncryptionKey[];
+
+/**
+ * Checks that a keyring is not empty and that its keys have a unique id and a non-empty key.
+ *
+ * @param keyring TruesignKeyring
+ * @throws Error if the keyring is not valid
+ */
+export function assertValidKeyring(keyring: TruesignKeyring): void {
+  if (!Array.isArray(keyring) || keyring.length === 0) {
+    throw new Error('`encryptionKeys` must contain at least one key');
+  }
+
+  const ids: string[] = [];
+  keyring.forEach(({ id, key }) => {
+    if (typeof id !== 'string' || !id) {
+      throw new Error('Every key in `encryptionKeys` must have an `id`');
+    }
+    if (ids.indexOf(id) !== -1) {
+      throw new Error(`Duplicated key id in \`encryptionKeys\`: ${id}`);
+    }
+    if (typeof key !== 'string' || !key) {
+      throw new Error(`Key \`${id}\` in \`encryptionKeys\` is empty`);
+    }
+    ids.push(id);
+  });
+}
+
+/**
+ * Returns the keys that haven't reached their `notAfter` date.
+ *
+ * @param keyring TruesignKeyring
+ * @param now Current time as Unix epoch with millisecond resolution
+ * @returns The active keys, in the keyring order
+ */
+export function getActiveKeys(keyring: TruesignKeyring, now: number): TruesignKeyring {
+  return keyring.filter(({ notAfter }) => (
+    notAfter === undefined || (notAfter instanceof Date ? notAfter.getTime() : notAfter) > now
+  ));
+}
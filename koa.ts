@@ -0,0 +1,94 @@
+import {
+  createTruesignRequestHandler,
+  type TruesignHookConfig,
+  type TruesignReply,
+  type TruesignRequestInput,
+} from './index';
+
+// Like with Fastify, Koa is typed by hand so it doesn't become a dependency. Only what the middleware uses is typed.
+
+export type KoaContext = {
+  method: string;
+  url: string;
+  query: unknown;
+  headers: TruesignRequestInput['headers'];
+  ip: string;
+  ips?: string[];
+  request: {
+    /**
+     * Only set once a body parser ran.
+     */
+    body?: unknown;
+  };
+  status: number;
+  body: unknown;
+  set: (name: string, value: string) => void;
+  append: (name: string, value: string) => void;
+  /**
+   * Where the middleware injects the token and its info.
+   */
+  state: Record<string, unknown>;
+};
+
+export type TruesignKoaMiddleware = (ctx: KoaContext, next: () => Promise<unknown>) => Promise<void>;
+
+function toTruesignReply(ctx: KoaContext): TruesignReply {
+  const reply: TruesignReply = {
+    code: (statusCode) => {
+      ctx.status = statusCode;
+      return reply;
+    },
+    header: (name, value) => {
+      // Like Fastify, cookies are appended so the ones the app set are kept
+      if (name.toLowerCase() === 'set-cookie') {
+        ctx.append(name, value);
+      } else {
+        ctx.set(name, value);
+      }
+      return reply;
+    },
+    send: (body) => {
+      // Koa turns an empty body into a `204`, so it's only set when there's one
+      if (body !== undefined) {
+        ctx.body = body;
+      }
+    },
+  };
+  return reply;
+}
+
+/**
+ * Returns a Koa middleware that validates Truesign tokens. The decrypted token and its info are injected in
+ * `ctx.state`, under `injectInto` and `injectInfoInto`.
+ *
+ * ```
+ * app.use(getTruesignKoaMiddleware({ encryptionKey: process.env.TRUESIGN_KEY }));
+ *
+ * app.use((ctx) => { ctx.body = ctx.state['ts-token']?.country; });
+ * ```
+ *
+ * @param config TruesignHookConfig
+ * @returns Koa middleware
+ * @throws Error if the config is not valid
+ */
+export function getTruesignKoaMiddleware<AdditionalConfig extends Record<string, unknown> = {}>(
+  config: TruesignHookConfig<AdditionalConfig>,
+): TruesignKoaMiddleware {
+  const handle = createTruesignRequestHandler(config);
+
+  return async (ctx, next) => {
+    const input: TruesignRequestInput = {
+      method: ctx.method,
+      url: ctx.url,
+      query: ctx.query,
+      headers: ctx.headers,
+      ip: ctx.ip,
+      ips: ctx.ips,
+      body: ctx.request.body,
+    };
+
+    if (await handle(input, toTruesignReply(ctx), ctx.state)) {
+      await next();
+    }
+  };
+}
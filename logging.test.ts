@@ -0,0 +1,24 @@
+import { createLogSampler } from './logging';
+
+describe('`createLogSampler`', () => {
+  test('Logging up to `maxPerInterval` entries per key', () => {
+    const sample = createLogSampler({ maxPerInterval: 2, intervalMs: 1000, now: () => 0 });
+
+    expect(sample('decrypt_failed')).toEqual({ log: true, suppressed: 0 });
+    expect(sample('decrypt_failed')).toEqual({ log: true, suppressed: 0 });
+    expect(sample('decrypt_failed')).toEqual({ log: false, suppressed: 0 });
+    expect(sample('missing_token')).toEqual({ log: true, suppressed: 0 });
+  });
+
+  test('Reporting suppressed entries on the next interval', () => {
+    let now = 0;
+    const sample = createLogSampler({ maxPerInterval: 1, intervalMs: 1000, now: () => now });
+
+    sample('decrypt_failed');
+    sample('decrypt_failed');
+    sample('decrypt_failed');
+    now = 1000;
+    expect(sample('decrypt_failed')).toEqual({ log: true, suppressed: 2 });
+    expect(sample('decrypt_failed')).toEqual({ log: false, suppressed: 0 });
+  });
+});
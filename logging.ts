@@ -0,0 +1,90 @@
+type LogFunction = (obj: Record<string, unknown>, msg?: string) => void;
+
+/**
+ * Minimal logger interface, compatible with pino and therefore with Fastify's `request.log`.
+ */
+export type TruesignLogger = {
+  debug: LogFunction;
+  info: LogFunction;
+  warn: LogFunction;
+  error: LogFunction;
+};
+
+export type TruesignLogLevel = keyof TruesignLogger;
+
+/**
+ * Logger used when neither a `logger` is configured nor the request has a `log`. Only warnings and errors are written,
+ * so that accepted and routinely rejected tokens don't flood the console.
+ */
+export const consoleLogger: TruesignLogger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: (obj, msg) => console.warn(msg, obj),
+  error: (obj, msg) => console.error(msg, obj),
+};
+
+export type LogSamplingConfig = {
+  /**
+   * Maximum number of entries logged per key (e.g. per rejection reason) inside each interval. Further entries are
+   * dropped, and their count is added as `suppressed` to the first entry of the next interval.
+   *
+   * @default 100
+   */
+  maxPerInterval?: number;
+  /**
+   * Length of the interval, in milliseconds.
+   *
+   * @default 60000
+   */
+  intervalMs?: number;
+  /**
+   * Clock used to compute intervals.
+   *
+   * @default Date.now
+   */
+  now?: () => number;
+};
+
+/**
+ * Returns whether an entry can be logged, and how many entries with the same key were dropped since the last one.
+ */
+export type LogSampler = (key: string) => { log: boolean; suppressed: number };
+
+type SamplerWindow = {
+  startedAt: number;
+  count: number;
+  suppressed: number;
+};
+
+/**
+ * Creates a {@link LogSampler} that allows a fixed number of entries per key and interval, so that a flood of garbage
+ * tokens can't flood the log pipeline too.
+ *
+ * @param config LogSamplingConfig
+ * @returns LogSampler
+ */
+export function createLogSampler(config: LogSamplingConfig = {}): LogSampler {
+  const { maxPerInterval = 100, intervalMs = 60000, now = Date.now } = config;
+  const windows = new Map<string, SamplerWindow>();
+
+  return (key) => {
+    const currentTime = now();
+    let window = windows.get(key);
+
+    if (!window || currentTime - window.startedAt >= intervalMs) {
+      const suppressed = window ? window.suppressed : 0;
+      window = { startedAt: currentTime, count: 0, suppressed: 0 };
+      windows.set(key, window);
+      window.count++;
+      return { log: true, suppressed };
+    }
+
+    if (window.count >= maxPerInterval) {
+      window.suppressed++;
+      return { log: false, suppressed: 0 };
+    }
+
+    window.count++;
+    return { log: true, suppressed: 0 };
+  };
+}
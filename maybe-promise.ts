@@ -0,0 +1,22 @@
+/**
+ * A value that is either available right away or through a promise.
+ *
+ * Used by the hook so that fully synchronous configs keep running synchronously, while any callback can still opt
+ * into being async.
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
+export function isPromiseLike<T>(value: MaybePromise<T>): value is Promise<T> {
+  return typeof value === 'object' && value !== null && typeof (value as Promise<T>).then === 'function';
+}
+
+/**
+ * Applies `fn` to `value`, synchronously if `value` is not a promise.
+ *
+ * @param value A value or a promise of it
+ * @param fn Continuation, which can be sync or async itself
+ * @returns The result of `fn`, or a promise of it
+ */
+export function chain<T, R>(value: MaybePromise<T>, fn: (value: T) => MaybePromise<R>): MaybePromise<R> {
+  return isPromiseLike(value) ? value.then(fn) : fn(value);
+}
@@ -0,0 +1,64 @@
+/// <reference types="./fastify.d.ts" />
+
+import type { DecryptedToken } from './index';
+import { constantTimeEqual, createTruesignMeta, getMetaBindingCheck } from './meta-binding';
+
+const request: FastifyRequest = { query: {}, headers: { 'x-session-id': 'session-1' }, ip: '127.0.0.1' };
+
+function makeToken(meta?: string): DecryptedToken {
+  return { bot: 0, anonymizer: 0, clusterId: 0, requestId: 1, timestamp: 0, country: 'ES', ipv4: '127.0.0.1', meta };
+}
+
+describe('`constantTimeEqual`', () => {
+  test('Comparing strings', () => {
+    expect(constantTimeEqual('foo', 'foo')).toBe(true);
+    expect(constantTimeEqual('foo', 'bar')).toBe(false);
+    expect(constantTimeEqual('foo', 'foobar')).toBe(false);
+    expect(constantTimeEqual('', '')).toBe(true);
+  });
+});
+
+describe('`createTruesignMeta`', () => {
+  test('Creating deterministic values that fit in `meta`', () => {
+    const meta = createTruesignMeta('secret', 'session-1', 'POST /signup');
+
+    expect(meta).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(createTruesignMeta('secret', 'session-1', 'POST /signup')).toBe(meta);
+  });
+
+  test('Binding the value to the secret and every part', () => {
+    const meta = createTruesignMeta('secret', 'session-1', 'POST /signup');
+
+    expect(createTruesignMeta('other-secret', 'session-1', 'POST /signup')).not.toBe(meta);
+    expect(createTruesignMeta('secret', 'session-2', 'POST /signup')).not.toBe(meta);
+    expect(createTruesignMeta('secret', 'POST /signup', 'session-1')).not.toBe(meta);
+    expect(createTruesignMeta('secret', 'session-1POST /signup')).not.toBe(meta);
+  });
+
+  test('Not allowing an empty secret', () => {
+    expect(() => createTruesignMeta('', 'foo')).toThrow('`secret` is required to create a meta value');
+  });
+});
+
+describe('`getMetaBindingCheck`', () => {
+  const getExpectedMeta = (req: FastifyRequest) => req.headers['x-session-id'] as string | undefined;
+
+  test('Accepting a matching meta', () => {
+    expect(getMetaBindingCheck({ getExpectedMeta })(makeToken('session-1'), request)).toBeNull();
+  });
+
+  test('Rejecting a different or missing meta', () => {
+    const checkMetaBinding = getMetaBindingCheck({ getExpectedMeta });
+
+    expect(checkMetaBinding(makeToken('session-2'), request)).toBe('The token meta doesn\'t match');
+    expect(checkMetaBinding(makeToken(), request)).toBe('The token has no meta');
+    expect(checkMetaBinding(makeToken('session-1'), { ...request, headers: {} })).toBe('No expected meta for this request');
+  });
+
+  test('Supporting async `getExpectedMeta`', async () => {
+    const checkMetaBinding = getMetaBindingCheck({ getExpectedMeta: async () => 'session-1' });
+
+    await expect(checkMetaBinding(makeToken('session-1'), request)).resolves.toBeNull();
+    await expect(checkMetaBinding(makeToken('session-2'), request)).resolves.toBe('The token meta doesn\'t match');
+  });
+});
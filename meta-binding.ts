@@ -0,0 +1,79 @@
+import * as crypto from 'node:crypto';
+
+import type { DecryptedToken, TruesignRequestInput } from './index';
+import { chain, type MaybePromise } from './maybe-promise';
+import { toBase64Url } from './utils';
+
+export type MetaBindingConfig = {
+  /**
+   * Derives the `meta` value the token must carry from the request, e.g. from the session id or a CSRF cookie.
+   *
+   * When it returns `null` or `undefined`, the request is rejected: a bound route can't be called without something to
+   * bind the token to.
+   */
+  getExpectedMeta: (req: TruesignRequestInput) => MaybePromise<string | null | undefined>;
+};
+
+/**
+ * Compares two strings in constant time, so the comparison doesn't leak how many leading characters match.
+ *
+ * Both values are hashed first because `crypto.timingSafeEqual` requires buffers of the same length.
+ *
+ * @param a string
+ * @param b string
+ * @returns Whether both strings are equal
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a, 'utf8').digest();
+  const hashB = crypto.createHash('sha256').update(b, 'utf8').digest();
+  return crypto.timingSafeEqual(hashA, hashB) && a.length === b.length;
+}
+
+/**
+ * Creates a `meta` value bound to the given parts (session id, route, body hash...) with an HMAC-SHA256, so clients
+ * can't compute it without the secret.
+ *
+ * The result is the base64url encoded HMAC: 43 characters, well within the 80 characters Truesign allows.
+ *
+ * ```
+ * const meta = createTruesignMeta(process.env.META_SECRET, sessionId, 'POST /signup');
+ * ```
+ *
+ * @param secret HMAC secret, only known by your servers
+ * @param parts Values the meta is bound to. The order matters.
+ * @returns The meta value
+ */
+export function createTruesignMeta(secret: string, ...parts: string[]): string {
+  if (!secret) {
+    throw new Error('`secret` is required to create a meta value');
+  }
+
+  return toBase64Url(crypto.createHmac('sha256', secret).update(JSON.stringify(parts), 'utf8').digest());
+}
+
+/**
+ * Builds the function used by the hook to check the token `meta` against the request.
+ *
+ * @param config MetaBindingConfig
+ * @returns A function that resolves `null` if `meta` matches, or the reason why it doesn't
+ */
+export function getMetaBindingCheck(
+  config: MetaBindingConfig,
+): (decryptedToken: DecryptedToken, req: TruesignRequestInput) => MaybePromise<string | null> {
+  if (typeof config.getExpectedMeta !== 'function') {
+    throw new Error('`metaBinding.getExpectedMeta` must be a function');
+  }
+
+  return (decryptedToken, req) => chain(config.getExpectedMeta(req), (expectedMeta) => {
+    if (typeof expectedMeta !== 'string' || !expectedMeta) {
+      return 'No expected meta for this request';
+    }
+    if (typeof decryptedToken.meta !== 'string') {
+      return 'The token has no meta';
+    }
+    if (!constantTimeEqual(decryptedToken.meta, expectedMeta)) {
+      return 'The token meta doesn\'t match';
+    }
+    return null;
+  });
+}
@@ -0,0 +1,89 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import * as querystring from 'node:querystring';
+
+import {
+  createTruesignRequestHandler,
+  type TruesignHookConfig,
+  type TruesignReply,
+  type TruesignRequestInput,
+} from './index';
+import { chain } from './maybe-promise';
+
+export type TruesignRequestListener = (req: IncomingMessage, res: ServerResponse) => void;
+
+function toTruesignInput(req: IncomingMessage): TruesignRequestInput {
+  const url = req.url ?? '';
+  const queryStart = url.indexOf('?');
+
+  return {
+    method: req.method,
+    url,
+    // Parsed like Fastify does, so repeated params become arrays
+    query: queryStart === -1 ? {} : { ...querystring.parse(url.slice(queryStart + 1)) },
+    headers: req.headers,
+    ip: req.socket.remoteAddress ?? '',
+    // Set by body parsing middlewares, if any
+    body: (req as IncomingMessage & { body?: unknown }).body,
+  };
+}
+
+function toTruesignReply(res: ServerResponse): TruesignReply {
+  const reply: TruesignReply = {
+    code: (statusCode) => {
+      res.statusCode = statusCode;
+      return reply;
+    },
+    header: (name, value) => {
+      // Like Fastify, cookies are appended so the ones the app set are kept
+      const current = name.toLowerCase() === 'set-cookie' ? res.getHeader(name) : undefined;
+      if (current === undefined) {
+        res.setHeader(name, value);
+      } else {
+        res.setHeader(name, (Array.isArray(current) ? current : [String(current)]).concat(value));
+      }
+      return reply;
+    },
+    send: (body) => {
+      if (body === undefined || typeof body === 'string' || Buffer.isBuffer(body)) {
+        res.end(body);
+        return;
+      }
+      // Objects are sent as JSON, like Fastify, Express and Koa do
+      if (!res.hasHeader('content-type')) {
+        res.setHeader('content-type', 'application/json; charset=utf-8');
+      }
+      res.end(JSON.stringify(body));
+    },
+  };
+  return reply;
+}
+
+/**
+ * Wraps a `node:http` request listener so it's only called for requests with a valid Truesign token. The decrypted
+ * token and its info are injected in the request, like {@link getTruesignHook} does for Fastify.
+ *
+ * ```
+ * http.createServer(getTruesignRequestListener({ encryptionKey: process.env.TRUESIGN_KEY }, (req, res) => {
+ *   res.end(req['ts-token']?.country);
+ * }));
+ * ```
+ *
+ * @param config TruesignHookConfig
+ * @param listener Called with the requests that are let through
+ * @returns Request listener for `http.createServer`
+ * @throws Error if the config is not valid
+ */
+export function getTruesignRequestListener<AdditionalConfig extends Record<string, unknown> = {}>(
+  config: TruesignHookConfig<AdditionalConfig>,
+  listener: TruesignRequestListener,
+): TruesignRequestListener {
+  const handle = createTruesignRequestHandler(config);
+
+  return (req, res) => {
+    chain(handle(toTruesignInput(req), toTruesignReply(res), req), (proceed) => {
+      if (proceed) {
+        listener(req, res);
+      }
+    });
+  };
+}
@@ -0,0 +1,156 @@
+/// <reference types="./fastify.d.ts" />
+
+import fastify from 'fastify';
+
+import { type DecryptedToken, truesignPlugin } from './index';
+import { createTruesignToken, humanToken } from './testing';
+
+const ENCRYPTION_KEY = '0123456789abcdef0123456789abcdef';
+
+type RegisteredHook = (req: FastifyRequest, reply: FastifyReply, done: HookHandlerDoneFunction) => void;
+
+type RouteHook = (routeOptions: FastifyRouteOptions) => void;
+
+type CloseHook = (instance: FastifyInstance, done: () => void) => void;
+
+function makeMockFastifyInstance(decorators: string[] = []) {
+  const hooks: { name: FastifyHookName; hook: RegisteredHook }[] = [];
+  const routeHooks: RouteHook[] = [];
+  const closeHooks: CloseHook[] = [];
+  const instance: FastifyInstance = {
+    addHook: jest.fn((
+      name: FastifyHookName | 'onRoute' | 'onClose',
+      hook: RegisteredHook | RouteHook | CloseHook,
+    ): FastifyInstance => {
+      if (name === 'onRoute') {
+        routeHooks.push(hook as RouteHook);
+      } else if (name === 'onClose') {
+        closeHooks.push(hook as CloseHook);
+      } else {
+        hooks.push({ name, hook: hook as RegisteredHook });
+      }
+      return instance;
+    }),
+    decorateRequest: jest.fn((property: string): FastifyInstance => {
+      decorators.push(property);
+      return instance;
+    }),
+    hasRequestDecorator: jest.fn((property: string) => decorators.indexOf(property) !== -1),
+  };
+
+  return { instance, hooks, routeHooks, closeHooks };
+}
+
+function makeMockFastifyReply(): FastifyReply {
+  const mockReply = {
+    code: jest.fn((): FastifyReply => mockReply),
+    header: jest.fn((): FastifyReply => mockReply),
+    send: jest.fn(),
+  };
+
+  return mockReply;
+}
+
+describe('`truesignPlugin`', () => {
+  test('Decorating the request and injecting the token in `request.truesign`', () => {
+    const decryptedToken = { bot: 0 } as DecryptedToken;
+    const { instance, hooks } = makeMockFastifyInstance();
+    const done = jest.fn();
+
+    truesignPlugin(instance, { encryptionKey: 'foo', decryptFunction: () => decryptedToken }, done);
+
+    expect(done).toBeCalledWith();
+    expect(instance.decorateRequest).toBeCalledWith('truesign', null);
+    expect(instance.decorateRequest).toBeCalledWith('truesignInfo', null);
+    expect(hooks).toHaveLength(1);
+    expect(hooks[0].name).toBe('onRequest');
+
+    const request = { query: { 'ts-token': 'jarl' }, headers: {}, ip: '127.0.0.1', truesign: null, truesignInfo: null };
+    const next = jest.fn();
+    hooks[0].hook(request, makeMockFastifyReply(), next);
+
+    expect(next).toBeCalledWith();
+    expect(request.truesign).toBe(decryptedToken);
+    expect(request.truesignInfo).toEqual({ keyId: null, emailTypo: null, risk: null, bypass: null, session: null, rejection: null });
+  });
+
+  test('Using a custom lifecycle hook', () => {
+    const { hooks, instance } = makeMockFastifyInstance();
+
+    truesignPlugin(instance, { encryptionKey: ENCRYPTION_KEY, hook: 'preHandler' }, jest.fn());
+
+    expect(hooks[0].name).toBe('preHandler');
+  });
+
+  test('Not decorating twice when a parent context already did', () => {
+    const { instance } = makeMockFastifyInstance(['truesign', 'truesignInfo']);
+
+    truesignPlugin(instance, { encryptionKey: ENCRYPTION_KEY }, jest.fn());
+
+    expect(instance.decorateRequest).not.toBeCalled();
+    expect(instance.addHook).toBeCalledWith('onRequest', expect.any(Function));
+  });
+
+  test('Reporting invalid configs through `done`', () => {
+    const { instance } = makeMockFastifyInstance();
+    const done = jest.fn();
+
+    truesignPlugin(instance, { encryptionKey: '' }, done);
+
+    expect(done).toBeCalledWith(new Error('`encryptionKey` is required when `allowUnauthenticated` is false'));
+    expect(instance.addHook).not.toBeCalled();
+  });
+
+  test('Validating route overrides when the routes are registered', () => {
+    const { instance, routeHooks } = makeMockFastifyInstance();
+
+    truesignPlugin(instance, { encryptionKey: ENCRYPTION_KEY }, jest.fn());
+
+    expect(routeHooks).toHaveLength(1);
+    expect(() => routeHooks[0]({ method: 'GET', url: '/', config: { truesign: { required: false } } })).not.toThrow();
+    expect(() => routeHooks[0]({ method: 'GET', url: '/', config: { truesign: { mode: 'shadow' } } }))
+      .toThrow('`mode` must be `enforce`, `report` or `off`');
+    expect(() => routeHooks[0]({ method: 'GET', url: '/', config: { truesign: { injectInto: 'token' } } }))
+      .toThrow('`injectInto` and `injectInfoInto` can\'t be overridden by the routes of `truesignPlugin`');
+  });
+
+  test('Closing the audit sink when the server closes', async () => {
+    const close = jest.fn(() => Promise.resolve());
+    const { instance, closeHooks } = makeMockFastifyInstance();
+
+    truesignPlugin(instance, { encryptionKey: ENCRYPTION_KEY, audit: { sink: { write: jest.fn(), close } } }, jest.fn());
+
+    expect(closeHooks).toHaveLength(1);
+    await new Promise<void>((resolve) => closeHooks[0](instance, resolve));
+    expect(close).toBeCalledTimes(1);
+  });
+});
+
+describe('`truesignPlugin` on Fastify', () => {
+  const token = createTruesignToken(ENCRYPTION_KEY, humanToken({ country: 'ES' }));
+
+  test('Protecting the routes of the context where it is registered', async () => {
+    const app = fastify();
+    app.register(truesignPlugin, { encryptionKey: ENCRYPTION_KEY });
+    app.get('/', async (request) => ({ country: request.truesign?.country, decorated: 'truesign' in request }));
+
+    expect((await app.inject({ url: '/' })).statusCode).toBe(401);
+    const response = await app.inject({ url: '/', query: { 'ts-token': token } });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ country: 'ES', decorated: true });
+  });
+
+  test('Only protecting the routes of a child context', async () => {
+    const app = fastify();
+    app.register(async (instance) => {
+      await instance.register(truesignPlugin, { encryptionKey: ENCRYPTION_KEY });
+      instance.get('/signup', async (request) => ({ country: request.truesign?.country }));
+    }, { prefix: '/protected' });
+    app.get('/public', async () => ({ ok: true }));
+
+    expect((await app.inject({ url: '/protected/signup' })).statusCode).toBe(401);
+    const response = await app.inject({ url: '/protected/signup', query: { 'ts-token': token } });
+    expect(response.json()).toEqual({ country: 'ES' });
+    expect((await app.inject({ url: '/public' })).statusCode).toBe(200);
+  });
+});
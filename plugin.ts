@@ -0,0 +1,151 @@
+// Loads the Fastify types, so they can be augmented below
+import type {} from 'fastify';
+
+import {
+  type DecryptedToken,
+  getTruesignHook,
+  type TruesignHookConfig,
+  type TruesignHookDoneFunction,
+  type TruesignReply,
+  type TruesignRequestInfo,
+  type TruesignRequestInput,
+  type TruesignRouteConfig,
+} from './index';
+import type { TruesignRouteOptions } from './route-config';
+
+// Types `request.truesign` for Fastify users
+declare module 'fastify' {
+  interface FastifyRequest {
+    /**
+     * The decrypted Truesign token, set by {@link truesignPlugin}. `null` when the request was let through without a
+     * valid token (e.g. in `off` or `report` mode).
+     */
+    truesign: DecryptedToken | null;
+    /**
+     * Details about how the token in `truesign` was processed, including the would-be rejection in `report` mode.
+     * `null` in `off` mode.
+     */
+    truesignInfo: TruesignRequestInfo | null;
+  }
+
+  interface FastifyContextConfig {
+    /**
+     * Overrides of the {@link truesignPlugin} options for the route.
+     */
+    truesign?: Omit<TruesignRouteConfig, 'injectInto' | 'injectInfoInto'>;
+  }
+}
+
+/**
+ * Name of the request property decorated by {@link truesignPlugin}.
+ */
+export const TRUESIGN_REQUEST_PROPERTY = 'truesign';
+
+/**
+ * Name of the request property where {@link truesignPlugin} injects the {@link TruesignRequestInfo}.
+ */
+export const TRUESIGN_INFO_REQUEST_PROPERTY = 'truesignInfo';
+
+/**
+ * Fastify lifecycle hooks where {@link truesignPlugin} can check tokens.
+ */
+export type TruesignHookName = 'onRequest' | 'preValidation' | 'preHandler';
+
+/**
+ * The part of the Fastify instance used by {@link truesignPlugin}, typed by hand like the requests.
+ *
+ * Its functions are declared as methods, whose parameters are checked bivariantly, so that the more specific overloads
+ * of Fastify's own instance are assignable to it.
+ */
+export type TruesignFastifyInstance = {
+  addHook(name: 'onRoute', hook: (routeOptions: TruesignRouteOptions) => void): TruesignFastifyInstance;
+  addHook(
+    name: 'onClose',
+    hook: (instance: TruesignFastifyInstance, done: () => void) => void,
+  ): TruesignFastifyInstance;
+  addHook(
+    name: TruesignHookName,
+    hook: (req: TruesignRequestInput, reply: TruesignReply, done: TruesignHookDoneFunction) => void,
+  ): TruesignFastifyInstance;
+  decorateRequest(property: string, value: unknown): TruesignFastifyInstance;
+  hasRequestDecorator(property: string): boolean;
+};
+
+/**
+ * Options for {@link truesignPlugin}. The same as {@link TruesignHookConfig}, except that the decrypted token is always
+ * injected in `request.truesign`, and its info in `request.truesignInfo`.
+ */
+export type TruesignPluginOptions<AdditionalConfig extends Record<string, unknown> = {}> =
+  & Omit<TruesignHookConfig<AdditionalConfig>, 'injectInto' | 'injectInfoInto'>
+  & {
+    /**
+     * Lifecycle hook where tokens are checked.
+     *
+     * @default 'onRequest'
+     */
+    hook?: TruesignHookName;
+  };
+
+/**
+ * Fastify plugin that decorates the request with `truesign` and checks Truesign tokens on every route of the context
+ * where it's registered.
+ *
+ * Like plugins wrapped with `fastify-plugin`, it isn't encapsulated: its hooks and decorators apply to the context it's
+ * registered in (and its children) instead of a context of its own. Registering it inside a child context (e.g. with a
+ * `prefix`) only protects the routes of that context, so different contexts can use different configs.
+ *
+ * Single routes can override the options with `config: { truesign: { ... } }`, which are validated as the routes are
+ * registered.
+ *
+ * ```
+ * fastify.register(truesignPlugin, { encryptionKey: process.env.TRUESIGN_KEY });
+ *
+ * fastify.get('/', async (request) => request.truesign?.country);
+ * ```
+ *
+ * @param fastify Fastify instance, provided by `fastify.register`
+ * @param options TruesignPluginOptions
+ * @param done Callback provided by `fastify.register`
+ */
+export function truesignPlugin<AdditionalConfig extends Record<string, unknown> = {}>(
+  fastify: TruesignFastifyInstance,
+  options: TruesignPluginOptions<AdditionalConfig>,
+  done: (err?: Error) => void,
+): void {
+  const { hook = 'onRequest', ...config } = options;
+
+  let truesignHook: ReturnType<typeof getTruesignHook>;
+  try {
+    const injection = { injectInto: TRUESIGN_REQUEST_PROPERTY, injectInfoInto: TRUESIGN_INFO_REQUEST_PROPERTY };
+    truesignHook = getTruesignHook({ ...config, ...injection } as TruesignHookConfig<AdditionalConfig>);
+  } catch (error) {
+    return done(error as Error);
+  }
+
+  // Parent contexts may have registered the plugin already, and decorating twice throws
+  [TRUESIGN_REQUEST_PROPERTY, TRUESIGN_INFO_REQUEST_PROPERTY].forEach((property) => {
+    if (!fastify.hasRequestDecorator(property)) {
+      fastify.decorateRequest(property, null);
+    }
+  });
+
+  fastify.addHook('onRoute', (routeOptions) => {
+    // Route overrides can't move the token away from the decorated properties
+    const routeConfig = routeOptions.config as { truesign?: unknown } | undefined;
+    const overrides = routeConfig && typeof routeConfig.truesign === 'object' ? routeConfig.truesign : null;
+    if (overrides && ('injectInto' in overrides || 'injectInfoInto' in overrides)) {
+      throw new Error('`injectInto` and `injectInfoInto` can\'t be overridden by the routes of `truesignPlugin`');
+    }
+    truesignHook.onRoute(routeOptions);
+  });
+  fastify.addHook(hook, truesignHook);
+  if (config.audit) {
+    fastify.addHook('onClose', truesignHook.onClose);
+  }
+  done();
+}
+
+// What `fastify-plugin` sets, without depending on it: Fastify registers the plugin in the caller's context, where the
+// routes to protect are, and names it in its errors
+Object.defineProperty(truesignPlugin, Symbol.for('skip-override'), { value: true });
+Object.defineProperty(truesignPlugin, Symbol.for('fastify.display-name'), { value: 'truesign-fastify-hook' });
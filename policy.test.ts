@@ -0,0 +1,134 @@
+import type { DecryptedToken } from './index';
+import { andPolicies, createTruesignPolicy, isTruesignPolicy, orPolicies, policyRule } from './policy';
+
+function makeToken(overrides: Partial<Record<keyof DecryptedToken, unknown>> = {}): DecryptedToken {
+  return {
+    bot: 0,
+    anonymizer: 0,
+    clusterId: 0,
+    requestId: 1,
+    timestamp: 1700000000000,
+    country: 'ES',
+    ipv4: '127.0.0.1',
+    ...overrides,
+  } as DecryptedToken;
+}
+
+describe('`createTruesignPolicy`', () => {
+  test('Accepting everything without rules', () => {
+    const policy = createTruesignPolicy({});
+    expect(policy(makeToken({ bot: 9, anonymizer: 9, clusterId: 3 }))).toBe(true);
+  });
+
+  test('`maxBot`', () => {
+    const policy = createTruesignPolicy({ maxBot: 7 });
+    expect(policy(makeToken({ bot: 7 }))).toBe(true);
+    expect(policy.evaluate(makeToken({ bot: 9 }))).toEqual({ accepted: false, failedRules: ['maxBot'] });
+  });
+
+  test('`maxAnonymizer`', () => {
+    const policy = createTruesignPolicy({ maxAnonymizer: 0 });
+    expect(policy(makeToken({ anonymizer: 0 }))).toBe(true);
+    expect(policy.evaluate(makeToken({ anonymizer: 7 }))).toEqual({ accepted: false, failedRules: ['maxAnonymizer'] });
+  });
+
+  test('`rejectClusters`', () => {
+    const policy = createTruesignPolicy({ rejectClusters: true });
+    expect(policy(makeToken({ clusterId: 0 }))).toBe(true);
+    expect(policy.evaluate(makeToken({ clusterId: 1234 }))).toEqual({ accepted: false, failedRules: ['rejectClusters'] });
+  });
+
+  test('`countries.deny`', () => {
+    const policy = createTruesignPolicy({ countries: { deny: ['ru', 'unknown'] } });
+    expect(policy(makeToken({ country: 'ES' }))).toBe(true);
+    expect(policy(makeToken({ country: 'RU' }))).toBe(false);
+    expect(policy.evaluate(makeToken({ country: 'unknown' }))).toEqual({ accepted: false, failedRules: ['countries'] });
+  });
+
+  test('`countries.allow`', () => {
+    const policy = createTruesignPolicy({ countries: { allow: ['ES', 'PT'], deny: ['PT'] } });
+    expect(policy(makeToken({ country: 'ES' }))).toBe(true);
+    expect(policy(makeToken({ country: 'PT' }))).toBe(false);
+    expect(policy(makeToken({ country: 'FR' }))).toBe(false);
+  });
+
+  test('Email rules', () => {
+    const policy = createTruesignPolicy({ rejectDisposableEmail: true, rejectNotDeliverableEmail: true });
+    const email = { email: 'foo@example.com', disposable: false, notDeliverable: false, typo: null };
+
+    expect(policy(makeToken())).toBe(true);
+    expect(policy(makeToken(email))).toBe(true);
+    expect(policy.evaluate(makeToken({ ...email, disposable: true })))
+      .toEqual({ accepted: false, failedRules: ['rejectDisposableEmail'] });
+    expect(policy.evaluate(makeToken({ ...email, notDeliverable: true })))
+      .toEqual({ accepted: false, failedRules: ['rejectNotDeliverableEmail'] });
+  });
+
+  test('`requireEmail`', () => {
+    const policy = createTruesignPolicy({ requireEmail: true });
+    expect(policy.evaluate(makeToken())).toEqual({ accepted: false, failedRules: ['requireEmail'] });
+    expect(policy(makeToken({ email: 'foo@example.com', disposable: false, notDeliverable: false }))).toBe(true);
+  });
+
+  test('Reporting the first failing rule', () => {
+    const policy = createTruesignPolicy({ maxBot: 0, rejectClusters: true });
+    expect(policy.evaluate(makeToken({ bot: 9, clusterId: 1 }))).toEqual({ accepted: false, failedRules: ['maxBot'] });
+  });
+});
+
+describe('Policy composition', () => {
+  const humans = createTruesignPolicy({ maxBot: 0 });
+  const noAnonymizers = createTruesignPolicy({ maxAnonymizer: 0 });
+
+  test('`andPolicies`', () => {
+    const policy = andPolicies(humans, noAnonymizers);
+    expect(policy(makeToken())).toBe(true);
+    expect(policy.evaluate(makeToken({ anonymizer: 9 }))).toEqual({ accepted: false, failedRules: ['maxAnonymizer'] });
+  });
+
+  test('`orPolicies`', () => {
+    const policy = orPolicies(humans, noAnonymizers);
+    expect(policy(makeToken({ bot: 9 }))).toBe(true);
+    expect(policy(makeToken({ anonymizer: 9 }))).toBe(true);
+    expect(policy.evaluate(makeToken({ bot: 9, anonymizer: 9 })))
+      .toEqual({ accepted: false, failedRules: ['maxBot', 'maxAnonymizer'] });
+  });
+
+  test('Nesting with custom rules', () => {
+    const isSpain = policyRule('isSpain', (token) => token.country === 'ES');
+    const policy = andPolicies(createTruesignPolicy({ rejectClusters: true }), orPolicies(humans, isSpain));
+
+    expect(policy(makeToken({ bot: 9, country: 'ES' }))).toBe(true);
+    expect(policy.evaluate(makeToken({ bot: 9, country: 'FR' })))
+      .toEqual({ accepted: false, failedRules: ['maxBot', 'isSpain'] });
+    expect(policy.evaluate(makeToken({ clusterId: 1 }))).toEqual({ accepted: false, failedRules: ['rejectClusters'] });
+  });
+});
+
+describe('`evaluateSession`', () => {
+  const verdict = { bot: 0, anonymizer: 0, clusterId: 3, country: 'ES', disposable: true, notDeliverable: false };
+
+  test('Checking session verdicts with the declarative rules', () => {
+    const policy = andPolicies(createTruesignPolicy({ maxBot: 0 }), createTruesignPolicy({ rejectClusters: true }));
+
+    expect(policy.evaluateSession?.(verdict)).toEqual({ accepted: false, failedRules: ['rejectClusters'] });
+    expect(createTruesignPolicy({ rejectDisposableEmail: true }).evaluateSession?.(verdict))
+      .toEqual({ accepted: false, failedRules: ['rejectDisposableEmail'] });
+    expect(createTruesignPolicy({ requireEmail: true }).evaluateSession?.({ ...verdict, disposable: false }))
+      .toEqual({ accepted: false, failedRules: ['requireEmail'] });
+  });
+
+  test('Not checking session verdicts with custom rules', () => {
+    const isSpain = policyRule('isSpain', (token) => token.country === 'ES');
+
+    expect(isSpain.evaluateSession).toBeUndefined();
+    expect(orPolicies(createTruesignPolicy({ maxBot: 0 }), isSpain).evaluateSession).toBeUndefined();
+  });
+});
+
+describe('`isTruesignPolicy`', () => {
+  test('Detecting policies', () => {
+    expect(isTruesignPolicy(createTruesignPolicy({}))).toBe(true);
+    expect(isTruesignPolicy(() => true)).toBe(false);
+  });
+});
@@ -0,0 +1,257 @@
+import type { DecryptedToken } from './index';
+import type { TruesignSessionVerdict } from './session';
+
+/**
+ * Outcome of evaluating a {@link TruesignPolicy} against a token.
+ *
+ * When the token is rejected, `failedRules` lists the names of the rules that failed. A policy stops at its first
+ * failing rule, so it contains a single name unless policies were combined with {@link orPolicies}, in which case it
+ * contains the failure of every alternative.
+ */
+export type PolicyResult =
+  | { accepted: true }
+  | { accepted: false; failedRules: string[] };
+
+/**
+ * A policy is a `shouldAcceptToken` function that can also explain its decision through `evaluate`.
+ */
+export type TruesignPolicy = ((decryptedToken: DecryptedToken) => boolean) & {
+  evaluate: (decryptedToken: DecryptedToken) => PolicyResult;
+  /**
+   * Evaluates the verdict of a session cookie. It's missing when the policy has a {@link policyRule}, which needs the
+   * whole token, so the routes using it don't accept session cookies.
+   */
+  evaluateSession?: (verdict: TruesignSessionVerdict) => PolicyResult;
+};
+
+export type TruesignPolicyOptions = {
+  /**
+   * Highest `bot` value accepted. `0` only accepts definite humans, `7` also accepts probable bots.
+   *
+   * Rule name: `maxBot`
+   */
+  maxBot?: number;
+  /**
+   * Highest `anonymizer` value accepted. `0` rejects anything that looks like a VPN, proxy or Tor.
+   *
+   * Rule name: `maxAnonymizer`
+   */
+  maxAnonymizer?: number;
+  /**
+   * If `true`, tokens that belong to a cluster (`clusterId` other than `0`) are rejected.
+   *
+   * Rule name: `rejectClusters`
+   */
+  rejectClusters?: boolean;
+  /**
+   * Country filter, using the codes of the token `country` field (case-insensitive).
+   *
+   * When `allow` is set, only those countries are accepted. Countries in `deny` are always rejected.
+   *
+   * Rule name: `countries`
+   */
+  countries?: {
+    allow?: string[];
+    deny?: string[];
+  };
+  /**
+   * If `true`, tokens with an email from a temporary email service are rejected. Tokens without email are accepted.
+   *
+   * Rule name: `rejectDisposableEmail`
+   */
+  rejectDisposableEmail?: boolean;
+  /**
+   * If `true`, tokens with an email that cannot receive mail are rejected. Tokens without email are accepted.
+   *
+   * Rule name: `rejectNotDeliverableEmail`
+   */
+  rejectNotDeliverableEmail?: boolean;
+  /**
+   * If `true`, tokens without an email are rejected.
+   *
+   * Rule name: `requireEmail`
+   */
+  requireEmail?: boolean;
+};
+
+type PolicyRule = {
+  name: string;
+  test: (verdict: DecryptedToken | TruesignSessionVerdict) => boolean;
+};
+
+type Evaluate<Verdict> = (verdict: Verdict) => PolicyResult;
+
+function makePolicy(
+  evaluate: Evaluate<DecryptedToken>,
+  evaluateSession: Evaluate<TruesignSessionVerdict> | null,
+): TruesignPolicy {
+  const policy: TruesignPolicy = (decryptedToken: DecryptedToken) => evaluate(decryptedToken).accepted;
+  policy.evaluate = evaluate;
+  if (evaluateSession !== null) {
+    policy.evaluateSession = evaluateSession;
+  }
+  return policy;
+}
+
+function getSessionEvaluators(policies: TruesignPolicy[]): Array<Evaluate<TruesignSessionVerdict>> | null {
+  const evaluators: Array<Evaluate<TruesignSessionVerdict>> = [];
+  for (let i = 0; i < policies.length; i++) {
+    const { evaluateSession } = policies[i];
+    if (evaluateSession === undefined) {
+      return null;
+    }
+    evaluators.push(evaluateSession);
+  }
+  return evaluators;
+}
+
+/**
+ * Checks whether a `shouldAcceptToken` function is a {@link TruesignPolicy}, so its decision can be explained.
+ */
+export function isTruesignPolicy(value: unknown): value is TruesignPolicy {
+  return typeof value === 'function' && typeof (value as Partial<TruesignPolicy>).evaluate === 'function';
+}
+
+/**
+ * Creates a policy made of a single custom rule, mostly to combine it with other policies.
+ *
+ * @param name Name reported when the rule fails
+ * @param test Returns whether the token passes the rule
+ * @returns TruesignPolicy
+ */
+export function policyRule(name: string, test: (decryptedToken: DecryptedToken) => boolean): TruesignPolicy {
+  return makePolicy((decryptedToken) => (
+    test(decryptedToken) ? { accepted: true } : { accepted: false, failedRules: [name] }
+  ), null);
+}
+
+function normalizeCountries(countries: string[]): string[] {
+  return countries.map((country) => country.toUpperCase());
+}
+
+/**
+ * Creates a policy from a declarative set of rules. All the configured rules must pass for a token to be accepted.
+ *
+ * The result can be used directly as `shouldAcceptToken`:
+ *
+ * ```
+ * getTruesignHook({
+ *   encryptionKey,
+ *   shouldAcceptToken: createTruesignPolicy({ maxBot: 0, rejectClusters: true }),
+ * });
+ * ```
+ *
+ * @param options TruesignPolicyOptions
+ * @returns TruesignPolicy
+ */
+export function createTruesignPolicy(options: TruesignPolicyOptions): TruesignPolicy {
+  const rules: PolicyRule[] = [];
+
+  if (options.maxBot !== undefined) {
+    const { maxBot } = options;
+    rules.push({ name: 'maxBot', test: (token) => token.bot <= maxBot });
+  }
+
+  if (options.maxAnonymizer !== undefined) {
+    const { maxAnonymizer } = options;
+    rules.push({ name: 'maxAnonymizer', test: (token) => token.anonymizer <= maxAnonymizer });
+  }
+
+  if (options.rejectClusters) {
+    rules.push({ name: 'rejectClusters', test: (token) => token.clusterId === 0 });
+  }
+
+  if (options.countries) {
+    const allow = options.countries.allow && normalizeCountries(options.countries.allow);
+    const deny = normalizeCountries(options.countries.deny ?? []);
+    rules.push({
+      name: 'countries',
+      test: (token) => {
+        const country = typeof token.country === 'string' ? token.country.toUpperCase() : '';
+        return deny.indexOf(country) === -1 && (!allow || allow.indexOf(country) !== -1);
+      },
+    });
+  }
+
+  if (options.requireEmail) {
+    // Session verdicts carry no email address, so they fail this rule
+    rules.push({ name: 'requireEmail', test: (token) => 'email' in token && typeof token.email === 'string' });
+  }
+
+  if (options.rejectDisposableEmail) {
+    rules.push({ name: 'rejectDisposableEmail', test: (token) => token.disposable !== true });
+  }
+
+  if (options.rejectNotDeliverableEmail) {
+    rules.push({ name: 'rejectNotDeliverableEmail', test: (token) => token.notDeliverable !== true });
+  }
+
+  const evaluate = (verdict: DecryptedToken | TruesignSessionVerdict): PolicyResult => {
+    for (let i = 0; i < rules.length; i++) {
+      if (!rules[i].test(verdict)) {
+        return { accepted: false, failedRules: [rules[i].name] };
+      }
+    }
+    return { accepted: true };
+  };
+  return makePolicy(evaluate, evaluate);
+}
+
+function evaluateAll<Verdict>(evaluators: Array<Evaluate<Verdict>>): Evaluate<Verdict> {
+  return (verdict) => {
+    for (let i = 0; i < evaluators.length; i++) {
+      const result = evaluators[i](verdict);
+      if (!result.accepted) {
+        return result;
+      }
+    }
+    return { accepted: true };
+  };
+}
+
+function evaluateAny<Verdict>(evaluators: Array<Evaluate<Verdict>>): Evaluate<Verdict> {
+  return (verdict) => {
+    const failedRules: string[] = [];
+    for (let i = 0; i < evaluators.length; i++) {
+      const result = evaluators[i](verdict);
+      if (result.accepted === true) {
+        return result;
+      }
+      failedRules.push(...result.failedRules);
+    }
+    return { accepted: false, failedRules };
+  };
+}
+
+/**
+ * Combines policies so that a token is accepted only if every policy accepts it.
+ *
+ * Policies are evaluated in order and evaluation stops at the first rejection.
+ *
+ * @param policies Policies to combine
+ * @returns TruesignPolicy
+ */
+export function andPolicies(...policies: TruesignPolicy[]): TruesignPolicy {
+  const sessionEvaluators = getSessionEvaluators(policies);
+  return makePolicy(
+    evaluateAll(policies.map((policy) => policy.evaluate)),
+    sessionEvaluators === null ? null : evaluateAll(sessionEvaluators),
+  );
+}
+
+/**
+ * Combines policies so that a token is accepted if at least one policy accepts it.
+ *
+ * Policies are evaluated in order and evaluation stops at the first acceptance. If every policy rejects the token, the
+ * failed rules of all of them are reported.
+ *
+ * @param policies Policies to combine
+ * @returns TruesignPolicy
+ */
+export function orPolicies(...policies: TruesignPolicy[]): TruesignPolicy {
+  const sessionEvaluators = getSessionEvaluators(policies);
+  return makePolicy(
+    evaluateAny(policies.map((policy) => policy.evaluate)),
+    sessionEvaluators === null ? null : evaluateAny(sessionEvaluators),
+  );
+}
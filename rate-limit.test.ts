@@ -0,0 +1,116 @@
+/// <reference types="./fastify.d.ts" />
+
+import type { DecryptedToken } from './index';
+import { canLimitSessions, createMemoryRateLimitStore, getRateLimitCheck } from './rate-limit';
+
+describe('`createMemoryRateLimitStore`', () => {
+  test('Allowing `limit` requests in any sliding window', async () => {
+    let now = 0;
+    const store = createMemoryRateLimitStore({ now: () => now });
+    const window = { algorithm: 'sliding-window' as const, limit: 2, windowMs: 1000 };
+
+    await expect(store.consume('a', window)).resolves.toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    now = 500;
+    await expect(store.consume('a', window)).resolves.toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+    await expect(store.consume('a', window)).resolves.toEqual({ allowed: false, remaining: 0, retryAfterMs: 500 });
+    await expect(store.consume('b', window)).resolves.toMatchObject({ allowed: true });
+    now = 1000;
+    await expect(store.consume('a', window)).resolves.toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+  });
+
+  test('Refilling token buckets over time', async () => {
+    let now = 0;
+    const store = createMemoryRateLimitStore({ now: () => now });
+    const window = { algorithm: 'token-bucket' as const, limit: 2, windowMs: 1000 };
+
+    await expect(store.consume('a', window)).resolves.toMatchObject({ allowed: true, remaining: 1 });
+    await expect(store.consume('a', window)).resolves.toMatchObject({ allowed: true, remaining: 0 });
+    await expect(store.consume('a', window)).resolves.toEqual({ allowed: false, remaining: 0, retryAfterMs: 500 });
+    now = 500;
+    await expect(store.consume('a', window)).resolves.toMatchObject({ allowed: true });
+    await expect(store.consume('a', window)).resolves.toMatchObject({ allowed: false });
+  });
+
+  test('Evicting the least recently used keys when `maxEntries` is reached', async () => {
+    const store = createMemoryRateLimitStore({ maxEntries: 2 });
+    const window = { algorithm: 'sliding-window' as const, limit: 1, windowMs: 1000 };
+
+    await store.consume('a', window);
+    await store.consume('b', window);
+    await store.consume('a', window);
+    await store.consume('c', window);
+
+    await expect(store.consume('a', window)).resolves.toMatchObject({ allowed: false });
+    await expect(store.consume('b', window)).resolves.toMatchObject({ allowed: true });
+  });
+});
+
+describe('`getRateLimitCheck`', () => {
+  const token = { clusterId: 42, country: 'ES', ipv4: '203.0.113.10' } as DecryptedToken;
+  const req = {} as FastifyRequest;
+
+  test('Not allowing invalid rules', () => {
+    expect(() => getRateLimitCheck({ rules: [] })).toThrow('`rateLimit.rules` must contain at least one rule');
+    expect(() => getRateLimitCheck({ rules: [{ key: 'country', limit: 0, windowMs: 1000 }] }))
+      .toThrow('`rateLimit.rules[0].limit` must be a positive integer');
+    expect(() => getRateLimitCheck({ rules: [{ key: 'country', limit: 1, windowMs: 0 }] }))
+      .toThrow('`rateLimit.rules[0].windowMs` must be a positive number');
+    expect(() => getRateLimitCheck({ rules: [{ key: () => 'x', limit: 1, windowMs: 1000 }] }))
+      .toThrow('`rateLimit.rules[0].name` is required when `key` is a function');
+    const algorithm = 'leaky-bucket' as 'token-bucket';
+    expect(() => getRateLimitCheck({ rules: [{ key: 'ip', algorithm, limit: 1, windowMs: 1 }] }))
+      .toThrow('`rateLimit.rules[0].algorithm` must be `sliding-window` or `token-bucket`');
+  });
+
+  test('Returning the first exceeded rule', async () => {
+    const check = getRateLimitCheck({
+      rules: [
+        { key: 'country', limit: 10, windowMs: 1000 },
+        { key: 'clusterId', limit: 1, windowMs: 1000 },
+      ],
+    });
+
+    await expect(check({ token }, req)).resolves.toBeNull();
+    await expect(check({ token }, req)).resolves.toEqual({ rule: 'clusterId', retryAfterMs: expect.any(Number) });
+  });
+
+  test('Skipping rules without a value, like requests outside a cluster', async () => {
+    const check = getRateLimitCheck({ rules: [{ key: 'clusterId', limit: 1, windowMs: 1000 }] });
+    const noCluster = { ...token, clusterId: 0 };
+
+    await expect(check({ token: noCluster }, req)).resolves.toBeNull();
+    await expect(check({ token: noCluster }, req)).resolves.toBeNull();
+  });
+
+  test('Grouping by custom keys and normalized IPs in the store', async () => {
+    const consume = jest.fn(() => Promise.resolve({ allowed: true, remaining: 0, retryAfterMs: 0 }));
+    const check = getRateLimitCheck({
+      rules: [
+        { key: 'ip', limit: 1, windowMs: 1000 },
+        { name: 'user', key: () => 'user-1', limit: 1, windowMs: 1000 },
+      ],
+      store: { consume },
+    });
+
+    await check({ token: { clusterId: 42, country: 'ES', ipv6: '2001:db8::1' } as DecryptedToken }, req);
+    expect(consume).toBeCalledWith('ts-rate:ip:2001:0db8:0000:0000:0000:0000:0000:0001', expect.anything());
+    expect(consume).toBeCalledWith('ts-rate:user:user-1', { algorithm: 'sliding-window', limit: 1, windowMs: 1000 });
+  });
+
+  test('Counting session verdicts by the IP of the client', async () => {
+    const consume = jest.fn(() => Promise.resolve({ allowed: true, remaining: 0, retryAfterMs: 0 }));
+    const rules = [
+      { key: 'ip' as const, limit: 1, windowMs: 1000 },
+      { key: 'clusterId' as const, limit: 1, windowMs: 1000 },
+    ];
+    const session = { bot: 0, anonymizer: 0, clusterId: 42, country: 'ES', disposable: false, notDeliverable: false };
+
+    await getRateLimitCheck({ rules, store: { consume } })({ session, ip: '203.0.113.10' }, req);
+    expect(consume).toHaveBeenNthCalledWith(1, 'ts-rate:ip:203.0.113.10', expect.anything());
+    expect(consume).toHaveBeenNthCalledWith(2, 'ts-rate:clusterId:42', expect.anything());
+
+    expect(canLimitSessions({ rules })).toBe(true);
+    expect(canLimitSessions({ rules: [{ key: 'meta', limit: 1, windowMs: 1000 }] })).toBe(false);
+    expect(canLimitSessions({ rules: [{ name: 'user', key: () => 'user-1', limit: 1, windowMs: 1000 }] })).toBe(false);
+  });
+});
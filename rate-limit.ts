@@ -0,0 +1,293 @@
+import type { DecryptedToken, TruesignRequestInput } from './index';
+import { getTokenIp, normalizeIp } from './ip-binding';
+import type { TruesignSessionVerdict } from './session';
+
+/**
+ * - `sliding-window`: at most `limit` requests in any period of `windowMs`
+ * - `token-bucket`: bursts of up to `limit` requests, refilled at `limit` requests per `windowMs`
+ */
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+/**
+ * Token field the requests are grouped by:
+ * - `clusterId`: requests of the same distributed attack. Requests outside a cluster (`0`) are not limited
+ * - `country`: requests from the same country
+ * - `ip`: requests from the IP the token was created for. Requests accepted on a session cookie use the IP of the
+ *   client, resolved like the cookie binding
+ * - `meta`: requests with the same `meta`, e.g. a user id sent to Truesign
+ *
+ * A function can return any other key, or `null` to skip the rule. Session cookies carry neither the `meta` nor the
+ * token, so routes with `meta` or function keys don't accept them.
+ */
+export type RateLimitKey =
+  | 'clusterId'
+  | 'country'
+  | 'ip'
+  | 'meta'
+  | ((decryptedToken: DecryptedToken, req: TruesignRequestInput) => string | null | undefined);
+
+export type RateLimitRule = {
+  /**
+   * Identifies the rule in store keys and rejections. Required when `key` is a function.
+   *
+   * @default The `key`
+   */
+  name?: string;
+  key: RateLimitKey;
+  /**
+   * @default 'sliding-window'
+   */
+  algorithm?: RateLimitAlgorithm;
+  /**
+   * Requests allowed per `windowMs`, which is also the burst size of `token-bucket`.
+   */
+  limit: number;
+  windowMs: number;
+};
+
+/**
+ * The limit a {@link RateLimitStore} applies to a key.
+ */
+export type RateLimitWindow = {
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  /** Requests left before the limit is reached */
+  remaining: number;
+  /** When rejected, milliseconds until a request would be allowed. `0` otherwise. */
+  retryAfterMs: number;
+};
+
+/**
+ * Storage of the rate limit counters.
+ *
+ * Like the {@link ReplayStore}, implementations must be atomic so concurrent requests can't exceed the limit. With
+ * Redis, `consume` is usually a Lua script.
+ */
+export type RateLimitStore = {
+  /**
+   * Counts a request for `key`, unless it exceeds the limit.
+   *
+   * @param key Identifies the rule and the value of its token field
+   * @param window The limit to apply
+   * @returns RateLimitResult
+   */
+  consume: (key: string, window: RateLimitWindow) => Promise<RateLimitResult>;
+};
+
+export type RateLimitConfig = {
+  /**
+   * Every rule must allow the request. Rules are checked in order, and the first one exceeded rejects it.
+   */
+  rules: RateLimitRule[];
+  /**
+   * Use a shared store (e.g. Redis) when running more than one instance.
+   *
+   * @default createMemoryRateLimitStore()
+   */
+  store?: RateLimitStore;
+  /**
+   * Prefix prepended to every key written to the store.
+   *
+   * @default 'ts-rate:'
+   */
+  keyPrefix?: string;
+};
+
+type MemoryRateLimitStoreOptions = {
+  /**
+   * Maximum number of keys kept in memory. When reached, the least recently used keys are evicted first.
+   *
+   * @default 100000
+   */
+  maxEntries?: number;
+  /**
+   * Clock used to compute the windows.
+   *
+   * @default Date.now
+   */
+  now?: () => number;
+};
+
+const DEFAULT_MEMORY_STORE_MAX_ENTRIES = 100000;
+const DEFAULT_RATE_LIMIT_KEY_PREFIX = 'ts-rate:';
+const RATE_LIMIT_ALGORITHMS: RateLimitAlgorithm[] = ['sliding-window', 'token-bucket'];
+
+type BucketState = { tokens: number; updatedAt: number };
+
+function consumeBucket(state: BucketState, window: RateLimitWindow, currentTime: number): RateLimitResult {
+  const refillPerMs = window.limit / window.windowMs;
+  state.tokens = Math.min(window.limit, state.tokens + (currentTime - state.updatedAt) * refillPerMs);
+  state.updatedAt = currentTime;
+
+  if (state.tokens < 1) {
+    return { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - state.tokens) / refillPerMs) };
+  }
+  state.tokens -= 1;
+  return { allowed: true, remaining: Math.floor(state.tokens), retryAfterMs: 0 };
+}
+
+/**
+ * The sliding window keeps the time of each counted request, so it takes `limit` numbers per key.
+ */
+function consumeWindow(hits: number[], window: RateLimitWindow, currentTime: number): RateLimitResult {
+  while (hits.length && hits[0] <= currentTime - window.windowMs) {
+    hits.shift();
+  }
+
+  if (hits.length >= window.limit) {
+    return { allowed: false, remaining: 0, retryAfterMs: hits[0] + window.windowMs - currentTime };
+  }
+  hits.push(currentTime);
+  return { allowed: true, remaining: window.limit - hits.length, retryAfterMs: 0 };
+}
+
+/**
+ * Creates an in-memory {@link RateLimitStore}.
+ *
+ * Each process counts its own requests, so behind a load balancer a client gets the limit once per instance. Use a
+ * shared store (e.g. Redis) when running several.
+ *
+ * @param options MemoryRateLimitStoreOptions
+ * @returns RateLimitStore
+ */
+export function createMemoryRateLimitStore(options: MemoryRateLimitStoreOptions = {}): RateLimitStore {
+  const {
+    maxEntries = DEFAULT_MEMORY_STORE_MAX_ENTRIES,
+    now = Date.now,
+  } = options;
+
+  // Insertion order is kept as the order of use, so the least recently used keys are at the beginning of the map
+  const states = new Map<string, BucketState | number[]>();
+
+  function evictOldest(): void {
+    const keys = states.keys();
+    while (states.size >= maxEntries) {
+      const next = keys.next();
+      if (next.done) {
+        return;
+      }
+      states.delete(next.value);
+    }
+  }
+
+  return {
+    consume: (key, window) => {
+      const currentTime = now();
+      let state = states.get(key);
+      if (state === undefined) {
+        evictOldest();
+        state = window.algorithm === 'token-bucket' ? { tokens: window.limit, updatedAt: currentTime } : [];
+      }
+
+      // Deleting first moves the key to the end of the insertion order
+      states.delete(key);
+      states.set(key, state);
+
+      return Promise.resolve(Array.isArray(state)
+        ? consumeWindow(state, window, currentTime)
+        : consumeBucket(state, window, currentTime));
+    },
+  };
+}
+
+/**
+ * What a request is counted as: its token, or the verdict of its session cookie and the IP of the client.
+ */
+export type RateLimitSubject =
+  | { token: DecryptedToken }
+  | { session: TruesignSessionVerdict; ip: string | undefined };
+
+/**
+ * Whether every rule can be applied to requests accepted on a session cookie.
+ *
+ * @param config RateLimitConfig
+ * @returns `false` if a rule is keyed on `meta` or a function, which need the token
+ */
+export function canLimitSessions(config: RateLimitConfig): boolean {
+  return config.rules.every((rule) => rule.key === 'clusterId' || rule.key === 'country' || rule.key === 'ip');
+}
+
+function getRuleValue(key: RateLimitKey, subject: RateLimitSubject, req: TruesignRequestInput): string | null {
+  const verdict = 'token' in subject ? subject.token : subject.session;
+  switch (key) {
+    case 'clusterId':
+      return verdict.clusterId ? String(verdict.clusterId) : null;
+    case 'country':
+      return verdict.country || null;
+    case 'ip':
+      return normalizeIp(('token' in subject ? getTokenIp(subject.token) : subject.ip) ?? '');
+    case 'meta':
+      return 'token' in subject ? subject.token.meta || null : null;
+    default:
+      return 'token' in subject ? key(subject.token, req) || null : null;
+  }
+}
+
+/**
+ * A rate limit rule that rejected a request.
+ */
+export type RateLimitViolation = {
+  rule: string;
+  retryAfterMs: number;
+};
+
+/**
+ * Builds the function used by the hook to count the request against every rule.
+ *
+ * @param config RateLimitConfig
+ * @returns A function that resolves `null` if the request is within the limits, or the exceeded rule
+ * @throws Error if any rule is not valid
+ */
+export function getRateLimitCheck(
+  config: RateLimitConfig,
+): (subject: RateLimitSubject, req: TruesignRequestInput) => Promise<RateLimitViolation | null> {
+  if (!Array.isArray(config.rules) || config.rules.length === 0) {
+    throw new Error('`rateLimit.rules` must contain at least one rule');
+  }
+
+  const rules = config.rules.map((rule, index) => {
+    const { algorithm = 'sliding-window', limit, windowMs } = rule;
+    const name = rule.name ?? (typeof rule.key === 'string' ? rule.key : undefined);
+    if (!name) {
+      throw new Error(`\`rateLimit.rules[${index}].name\` is required when \`key\` is a function`);
+    }
+    if (RATE_LIMIT_ALGORITHMS.indexOf(algorithm) === -1) {
+      throw new Error(`\`rateLimit.rules[${index}].algorithm\` must be \`sliding-window\` or \`token-bucket\``);
+    }
+    if (!(limit >= 1) || Math.floor(limit) !== limit) {
+      throw new Error(`\`rateLimit.rules[${index}].limit\` must be a positive integer`);
+    }
+    if (!(windowMs > 0)) {
+      throw new Error(`\`rateLimit.rules[${index}].windowMs\` must be a positive number`);
+    }
+    return { name, key: rule.key, window: { algorithm, limit, windowMs } };
+  });
+
+  const store = config.store ?? createMemoryRateLimitStore();
+  const keyPrefix = config.keyPrefix ?? DEFAULT_RATE_LIMIT_KEY_PREFIX;
+
+  return (subject, req) => {
+    const checkFrom = (index: number): Promise<RateLimitViolation | null> => {
+      if (index >= rules.length) {
+        return Promise.resolve(null);
+      }
+
+      const rule = rules[index];
+      const value = getRuleValue(rule.key, subject, req);
+      if (value === null) {
+        return checkFrom(index + 1);
+      }
+
+      return store.consume(`${keyPrefix}${rule.name}:${value}`, rule.window).then((result) => (
+        result.allowed ? checkFrom(index + 1) : { rule: rule.name, retryAfterMs: result.retryAfterMs }
+      ));
+    };
+
+    return checkFrom(0);
+  };
+}
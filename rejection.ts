@@ -0,0 +1,112 @@
+import type { EmailTypoSuggestion } from './email-binding';
+import type { TruesignReply, TruesignRequestInput } from './index';
+import type { RiskAssessment, RiskChallengeResponse } from './risk';
+
+/**
+ * Why the hook rejected a request:
+ * - `missing_token`: no token was found in the request
+ * - `decrypt_failed`: the token couldn't be decrypted (malformed, wrong key...)
+ * - `invalid_payload`: the token was decrypted but its payload doesn't match the documented shape
+ * - `token_expired`: the token is older than `maxTokenAgeMs`
+ * - `token_not_yet_valid`: the token is dated in the future, beyond `allowedClockSkewMs`
+ * - `token_replayed`: the token `requestId` was already accepted inside the replay protection window
+ * - `ip_mismatch`: the token was created for a different IP than the one of the request (see `ipBinding`)
+ * - `email_mismatch`: the verified email is not the one submitted in the request (see `emailBinding`)
+ * - `meta_mismatch`: the token `meta` doesn't match the value expected for the request (see `metaBinding`)
+ * - `rate_limited`: the request exceeded a `rateLimit` rule (see `retryAfterMs`)
+ * - `risk_challenge`: the risk score of the token is in the `challenge` tier (see `risk`)
+ * - `risk_blocked`: the risk score of the token is in the `block` tier (see `risk`)
+ * - `session_invalid`: there's no token, and the session cookie is malformed, expired, issued to another client or
+ *   revoked (see `session`)
+ * - `policy_rejected:<rule>`: `shouldAcceptToken` rejected the token. When it is a `TruesignPolicy`, `<rule>` holds the
+ *   failed rule names joined by `|`, otherwise it's `shouldAcceptToken`
+ * - `internal_error`: something unexpected failed (see `error`)
+ */
+export type TruesignRejectionReason =
+  | 'missing_token'
+  | 'decrypt_failed'
+  | 'invalid_payload'
+  | 'token_expired'
+  | 'token_not_yet_valid'
+  | 'token_replayed'
+  | 'ip_mismatch'
+  | 'email_mismatch'
+  | 'meta_mismatch'
+  | 'rate_limited'
+  | 'risk_challenge'
+  | 'risk_blocked'
+  | 'session_invalid'
+  | `policy_rejected:${string}`
+  | 'internal_error';
+
+export type TruesignRejection = {
+  reason: TruesignRejectionReason;
+  /**
+   * Human-readable explanation, meant for logs. It may contain details about the token, so avoid sending it to
+   * clients as is.
+   */
+  detail?: string;
+  /**
+   * The original error, for `decrypt_failed` and `internal_error`.
+   */
+  error?: unknown;
+  /**
+   * Set when the token was decrypted and Truesign suggests a correction for the email domain, so forms can show
+   * "did you mean ...?" even when the token is rejected (e.g. for `notDeliverable`).
+   */
+  emailTypo?: EmailTypoSuggestion;
+  /**
+   * For `rate_limited`, milliseconds until the request would be allowed.
+   */
+  retryAfterMs?: number;
+  /**
+   * For `risk_challenge` and `risk_blocked`, the score and tier of the token.
+   */
+  risk?: RiskAssessment;
+  /**
+   * For `risk_challenge`, the response the client expects for challenges.
+   */
+  challenge?: RiskChallengeResponse;
+};
+
+/**
+ * Called when the hook rejects a request. It's responsible for sending the response through `reply`, and can be async.
+ */
+export type RejectFunction = (
+  rejection: TruesignRejection,
+  req: TruesignRequestInput,
+  reply: TruesignReply,
+) => void | Promise<void>;
+
+/**
+ * Default {@link RejectFunction}: replies `401` with an empty body, without disclosing why the token was rejected.
+ *
+ * Rate limited requests get `429` with a `Retry-After` header instead, so well-behaved clients can back off, and
+ * challenged requests get the `risk.challengeResponse`.
+ */
+export const defaultOnReject: RejectFunction = (rejection, _req, reply) => {
+  if (rejection.reason === 'rate_limited') {
+    reply.code(429).header('Retry-After', String(Math.max(1, Math.ceil((rejection.retryAfterMs ?? 0) / 1000)))).send();
+    return;
+  }
+  if (rejection.reason === 'risk_challenge' && rejection.challenge) {
+    const { statusCode, headers } = rejection.challenge;
+    reply.code(statusCode);
+    Object.keys(headers).forEach((name) => {
+      reply.header(name, headers[name]);
+    });
+    reply.send();
+    return;
+  }
+  reply.code(401).send();
+};
+
+/**
+ * Builds the rejection reason for a failed `shouldAcceptToken`.
+ *
+ * @param failedRules Names of the rules that failed, if known
+ * @returns TruesignRejectionReason
+ */
+export function policyRejectionReason(failedRules: string[] | null): TruesignRejectionReason {
+  return `policy_rejected:${failedRules && failedRules.length ? failedRules.join('|') : 'shouldAcceptToken'}`;
+}
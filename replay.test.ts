@@ -0,0 +1,60 @@
+import { createMemoryReplayStore, getReplayGuard } from './replay';
+
+describe('`createMemoryReplayStore`', () => {
+  test('Accepts a key only once inside its TTL', async () => {
+    const store = createMemoryReplayStore();
+
+    await expect(store.markSeen('a', 1000)).resolves.toBe(true);
+    await expect(store.markSeen('a', 1000)).resolves.toBe(false);
+    await expect(store.markSeen('b', 1000)).resolves.toBe(true);
+  });
+
+  test('Forgets keys once their TTL expires', async () => {
+    let now = 0;
+    const store = createMemoryReplayStore({ now: () => now });
+
+    await expect(store.markSeen('a', 1000)).resolves.toBe(true);
+    now = 999;
+    await expect(store.markSeen('a', 1000)).resolves.toBe(false);
+    now = 1000;
+    await expect(store.markSeen('a', 1000)).resolves.toBe(true);
+  });
+
+  test('Evicts the oldest keys when `maxEntries` is reached', async () => {
+    const store = createMemoryReplayStore({ maxEntries: 2 });
+
+    await store.markSeen('a', 1000);
+    await store.markSeen('b', 1000);
+    await store.markSeen('c', 1000);
+
+    await expect(store.markSeen('b', 1000)).resolves.toBe(false);
+    await expect(store.markSeen('c', 1000)).resolves.toBe(false);
+    await expect(store.markSeen('a', 1000)).resolves.toBe(true);
+  });
+
+  test('Only one of several concurrent calls wins', async () => {
+    const store = createMemoryReplayStore();
+
+    const results = await Promise.all([
+      store.markSeen('a', 1000),
+      store.markSeen('a', 1000),
+      store.markSeen('a', 1000),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+});
+
+describe('`getReplayGuard`', () => {
+  test('Not allowing a non-positive window', () => {
+    expect(() => getReplayGuard({ windowMs: 0 })).toThrow('`replayProtection.windowMs` must be a positive number');
+  });
+
+  test('Prefixing keys written to the store', async () => {
+    const markSeen = jest.fn(() => Promise.resolve(true));
+    const checkReplay = getReplayGuard({ windowMs: 5000, store: { markSeen }, keyPrefix: 'test:' });
+
+    await expect(checkReplay(42)).resolves.toBe(true);
+    expect(markSeen).toBeCalledWith('test:42', 5000);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Storage used by the replay protection to remember which `requestId`s were already accepted.
+ *
+ * Implementations must be atomic: when two requests carrying the same token arrive at the same time, only one of them
+ * can get `true` from {@link ReplayStore.markSeen}. With Redis this maps directly to `SET key 1 NX PX ttlMs`.
+ */
+export type ReplayStore = {
+  /**
+   * Records `key` as seen for `ttlMs` milliseconds.
+   *
+   * @param key Unique identifier of the token (derived from its `requestId`)
+   * @param ttlMs How long the key must be remembered, in milliseconds
+   * @returns `true` if the key was not seen inside the window (first use), `false` if it was already there
+   */
+  markSeen: (key: string, ttlMs: number) => Promise<boolean>;
+};
+
+export type ReplayProtectionConfig = {
+  /**
+   * How long an accepted `requestId` is remembered, in milliseconds. A token reused inside this window is rejected.
+   *
+   * It should be at least as long as the maximum age you accept for tokens, otherwise an old token could be replayed
+   * once its `requestId` has been forgotten.
+   */
+  windowMs: number;
+  /**
+   * Where seen `requestId`s are stored. Use a shared store (e.g. Redis) when running more than one instance.
+   *
+   * @default createMemoryReplayStore()
+   */
+  store?: ReplayStore;
+  /**
+   * Prefix prepended to every key written to the store, useful when the store is shared with other data.
+   *
+   * @default 'ts-replay:'
+   */
+  keyPrefix?: string;
+};
+
+type MemoryReplayStoreOptions = {
+  /**
+   * Maximum number of keys kept in memory. When reached, the keys closest to expiring are evicted first.
+   *
+   * @default 100000
+   */
+  maxEntries?: number;
+  /**
+   * Clock used to expire the seen keys.
+   *
+   * @default Date.now
+   */
+  now?: () => number;
+};
+
+const DEFAULT_MEMORY_STORE_MAX_ENTRIES = 100000;
+
+/**
+ * Creates an in-memory {@link ReplayStore} with per-key TTL.
+ *
+ * A token accepted by one process is unknown to the others, so it can be replayed against another instance behind the
+ * same load balancer.
+ *
+ * @param options MemoryReplayStoreOptions
+ * @returns A ReplayStore backed by a `Map`
+ */
+export function createMemoryReplayStore(options: MemoryReplayStoreOptions = {}): ReplayStore {
+  const {
+    maxEntries = DEFAULT_MEMORY_STORE_MAX_ENTRIES,
+    now = Date.now,
+  } = options;
+
+  // key -> expiration time. Insertion order matches expiration order as long as every key uses the same TTL, which is
+  // the case for the hook, so the oldest entries are always at the beginning of the map.
+  const seen = new Map<string, number>();
+
+  function prune(currentTime: number): void {
+    const expired: string[] = [];
+    seen.forEach((expiresAt, key) => {
+      if (expiresAt <= currentTime) {
+        expired.push(key);
+      }
+    });
+    expired.forEach((key) => seen.delete(key));
+  }
+
+  function evictOldest(): void {
+    const keys = seen.keys();
+    while (seen.size >= maxEntries) {
+      const next = keys.next();
+      if (next.done) {
+        return;
+      }
+      seen.delete(next.value);
+    }
+  }
+
+  return {
+    markSeen: (key, ttlMs) => {
+      const currentTime = now();
+      const expiresAt = seen.get(key);
+      if (expiresAt !== undefined && expiresAt > currentTime) {
+        return Promise.resolve(false);
+      }
+
+      if (seen.size >= maxEntries) {
+        prune(currentTime);
+        evictOldest();
+      }
+
+      // Deleting first moves the key to the end of the insertion order
+      seen.delete(key);
+      seen.set(key, currentTime + ttlMs);
+      return Promise.resolve(true);
+    },
+  };
+}
+
+const DEFAULT_REPLAY_KEY_PREFIX = 'ts-replay:';
+
+/**
+ * Builds the function used by the hook to check and record a `requestId`.
+ *
+ * @param config ReplayProtectionConfig
+ * @returns A function that resolves `true` the first time a `requestId` is seen inside the window
+ */
+export function getReplayGuard(config: ReplayProtectionConfig): (requestId: number) => Promise<boolean> {
+  if (!(config.windowMs > 0)) {
+    throw new Error('`replayProtection.windowMs` must be a positive number');
+  }
+
+  const store = config.store ?? createMemoryReplayStore();
+  const keyPrefix = config.keyPrefix ?? DEFAULT_REPLAY_KEY_PREFIX;
+
+  return (requestId) => store.markSeen(`${keyPrefix}${requestId}`, config.windowMs);
+}
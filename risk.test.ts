@@ -0,0 +1,37 @@
+/// <reference types="./fastify.d.ts" />
+
+import { createTruesignRiskScorer, getRiskChallengeResponse } from './risk';
+import { botToken, disposableEmailToken, humanToken, vpnToken } from './testing';
+
+describe('`createTruesignRiskScorer`', () => {
+  const scoreRisk = createTruesignRiskScorer();
+
+  test('Sorting tokens into tiers with the default weights', () => {
+    expect(scoreRisk(humanToken())).toEqual({ score: 0, tier: 'allow' });
+    expect(scoreRisk(vpnToken())).toEqual({ score: 20, tier: 'allow' });
+    expect(scoreRisk(vpnToken({ bot: 7 }))).toEqual({ score: 67, tier: 'challenge' });
+    expect(scoreRisk(botToken({ clusterId: 42 }))).toEqual({ score: 90, tier: 'block' });
+    expect(scoreRisk(disposableEmailToken({ notDeliverable: true }))).toEqual({ score: 30, tier: 'allow' });
+  });
+
+  test('Using custom weights, countries and thresholds', () => {
+    const customScoreRisk = createTruesignRiskScorer({
+      weights: { anonymizer: 45 },
+      countries: { kp: 100, ES: -10 },
+      thresholds: { challenge: 30, block: 100 },
+    });
+
+    expect(customScoreRisk(vpnToken())).toEqual({ score: 45, tier: 'challenge' });
+    expect(customScoreRisk(vpnToken({ country: 'ES' }))).toEqual({ score: 35, tier: 'challenge' });
+    expect(customScoreRisk(humanToken({ country: 'KP' }))).toEqual({ score: 100, tier: 'block' });
+  });
+
+  test('Not allowing invalid weights nor thresholds', () => {
+    expect(() => createTruesignRiskScorer({ weights: { bot: NaN } }))
+      .toThrow('`risk.weights.bot` must be a finite number');
+    expect(() => createTruesignRiskScorer({ thresholds: { challenge: 80 } }))
+      .toThrow('`risk.thresholds.challenge` can\'t be greater than `risk.thresholds.block`');
+    expect(() => getRiskChallengeResponse({ challengeResponse: { statusCode: 302 } }))
+      .toThrow('`risk.challengeResponse.statusCode` must be a 4xx or 5xx status code');
+  });
+});
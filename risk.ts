@@ -0,0 +1,157 @@
+import type { DecryptedToken } from './index';
+import type { TruesignSessionVerdict } from './session';
+
+/**
+ * - `allow`: the request goes on
+ * - `challenge`: the request is rejected with the `challengeResponse`, so the client can prove itself again (e.g. by
+ *   re-running Truesign or solving a CAPTCHA)
+ * - `block`: the request is rejected
+ */
+export type RiskTier = 'allow' | 'challenge' | 'block';
+
+export type RiskAssessment = {
+  /** The sum of the weighted token fields, rounded to the nearest integer */
+  score: number;
+  tier: RiskTier;
+};
+
+/**
+ * Points each token field adds to the score at its riskiest. `bot` and `anonymizer` are scaled by their value, out of
+ * `9`, and the other fields add their whole weight when set.
+ */
+export type RiskWeights = {
+  /** @default 60 */
+  bot?: number;
+  /** @default 20 */
+  anonymizer?: number;
+  /** Added when the token belongs to a cluster. @default 30 */
+  clusterId?: number;
+  /** @default 20 */
+  disposable?: number;
+  /** @default 10 */
+  notDeliverable?: number;
+};
+
+export type RiskChallengeResponse = {
+  /** @default 403 */
+  statusCode: number;
+  /** @default { 'X-Truesign-Challenge': '1' } */
+  headers: Record<string, string>;
+};
+
+export type RiskScoringConfig = {
+  /**
+   * Merged with the default weights, so only the ones to change must be set. `0` ignores a field.
+   */
+  weights?: RiskWeights;
+  /**
+   * Points added to the score by the token `country` (case-insensitive), e.g. `{ KP: 100 }`. Negative values lower
+   * the score.
+   *
+   * @default {}
+   */
+  countries?: Record<string, number>;
+  /**
+   * Lowest score of each tier. Lower scores are allowed.
+   *
+   * @default { challenge: 40, block: 70 }
+   */
+  thresholds?: {
+    challenge?: number;
+    block?: number;
+  };
+  /**
+   * Response of the default `onReject` to challenged requests, which the frontend can recognize.
+   */
+  challengeResponse?: Partial<RiskChallengeResponse>;
+};
+
+const DEFAULT_RISK_WEIGHTS: Required<RiskWeights> = {
+  bot: 60,
+  anonymizer: 20,
+  clusterId: 30,
+  disposable: 20,
+  notDeliverable: 10,
+};
+
+const DEFAULT_CHALLENGE_THRESHOLD = 40;
+const DEFAULT_BLOCK_THRESHOLD = 70;
+const MAX_SCALED_VALUE = 9;
+
+function assertFiniteNumber(value: unknown, option: string): asserts value is number {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    throw new Error(`\`${option}\` must be a finite number`);
+  }
+}
+
+function scaled(value: unknown): number {
+  return typeof value === 'number' ? Math.min(Math.max(value, 0), MAX_SCALED_VALUE) / MAX_SCALED_VALUE : 0;
+}
+
+/**
+ * Creates a function that scores a token, or the verdict of a session cookie, and maps the score to a {@link RiskTier}.
+ *
+ * ```
+ * const scoreRisk = createTruesignRiskScorer({ countries: { KP: 100 } });
+ *
+ * scoreRisk(decryptedToken); // { score: 47, tier: 'challenge' } for `bot: 7` and `anonymizer: 0`
+ * ```
+ *
+ * @param config RiskScoringConfig
+ * @returns Function that assesses a token or verdict
+ * @throws Error if a weight or threshold is not a finite number, or the thresholds are not in order
+ */
+export function createTruesignRiskScorer(config: RiskScoringConfig = {}): (
+  decryptedToken: DecryptedToken | TruesignSessionVerdict,
+) => RiskAssessment {
+  const weights = { ...DEFAULT_RISK_WEIGHTS, ...config.weights };
+  Object.keys(weights).forEach((field) => {
+    assertFiniteNumber(weights[field as keyof RiskWeights], `risk.weights.${field}`);
+  });
+
+  const countries: Record<string, number> = {};
+  Object.keys(config.countries ?? {}).forEach((country) => {
+    const points = (config.countries as Record<string, number>)[country];
+    assertFiniteNumber(points, `risk.countries.${country}`);
+    countries[country.toUpperCase()] = points;
+  });
+
+  const { challenge = DEFAULT_CHALLENGE_THRESHOLD, block = DEFAULT_BLOCK_THRESHOLD } = config.thresholds ?? {};
+  assertFiniteNumber(challenge, 'risk.thresholds.challenge');
+  assertFiniteNumber(block, 'risk.thresholds.block');
+  if (challenge > block) {
+    throw new Error('`risk.thresholds.challenge` can\'t be greater than `risk.thresholds.block`');
+  }
+
+  return (decryptedToken) => {
+    const country = typeof decryptedToken.country === 'string' ? decryptedToken.country.toUpperCase() : '';
+    const score = Math.round(
+      weights.bot * scaled(decryptedToken.bot)
+      + weights.anonymizer * scaled(decryptedToken.anonymizer)
+      + (decryptedToken.clusterId ? weights.clusterId : 0)
+      + (decryptedToken.disposable === true ? weights.disposable : 0)
+      + (decryptedToken.notDeliverable === true ? weights.notDeliverable : 0)
+      + (countries.hasOwnProperty(country) ? countries[country] : 0),
+    );
+
+    if (score >= block) {
+      return { score, tier: 'block' };
+    }
+    return { score, tier: score >= challenge ? 'challenge' : 'allow' };
+  };
+}
+
+/**
+ * Resolves the response to challenged requests.
+ *
+ * @param config RiskScoringConfig
+ * @returns RiskChallengeResponse
+ * @throws Error if the status code is not a 4xx or 5xx
+ */
+export function getRiskChallengeResponse(config: RiskScoringConfig): RiskChallengeResponse {
+  const { statusCode = 403, headers = { 'X-Truesign-Challenge': '1' } } = config.challengeResponse ?? {};
+  if (!(statusCode >= 400 && statusCode <= 599) || Math.floor(statusCode) !== statusCode) {
+    throw new Error('`risk.challengeResponse.statusCode` must be a 4xx or 5xx status code');
+  }
+  return { statusCode, headers };
+}
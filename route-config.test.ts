@@ -0,0 +1,32 @@
+import { mergeTruesignRouteConfig } from './route-config';
+
+describe('`mergeTruesignRouteConfig`', () => {
+  const shouldAcceptToken = () => true;
+
+  test('Overriding the hook config', () => {
+    const policy = () => false;
+
+    expect(mergeTruesignRouteConfig({ encryptionKey: 'foo', shouldAcceptToken }, { policy, injectInto: 'token' }))
+      .toEqual({ encryptionKey: 'foo', shouldAcceptToken: policy, injectInto: 'token' });
+    expect(mergeTruesignRouteConfig({ encryptionKey: 'foo', maxTokenAgeMs: 1000 }, {}))
+      .toEqual({ encryptionKey: 'foo', maxTokenAgeMs: 1000 });
+  });
+
+  test('Mapping `required` to the mode', () => {
+    expect(mergeTruesignRouteConfig({ encryptionKey: 'foo' }, { required: false }))
+      .toEqual({ encryptionKey: 'foo', mode: 'off' });
+    expect(mergeTruesignRouteConfig({ encryptionKey: 'foo', allowUnauthenticated: true }, { required: true }))
+      .toEqual({ encryptionKey: 'foo', mode: 'enforce' });
+    expect(mergeTruesignRouteConfig({ encryptionKey: 'foo', mode: 'report' }, { allowUnauthenticated: true }))
+      .toEqual({ encryptionKey: 'foo', allowUnauthenticated: true });
+  });
+
+  test('Not allowing contradictory overrides', () => {
+    expect(() => mergeTruesignRouteConfig({ encryptionKey: 'foo' }, { policy: shouldAcceptToken, shouldAcceptToken }))
+      .toThrow('`policy` and `shouldAcceptToken` can\'t be used together');
+    expect(() => mergeTruesignRouteConfig({ encryptionKey: 'foo' }, { required: false, mode: 'report' }))
+      .toThrow('`required` can\'t be used together with `mode` nor `allowUnauthenticated`');
+    expect(() => mergeTruesignRouteConfig({ encryptionKey: 'foo' }, true as unknown as {}))
+      .toThrow('`config.truesign` must be an object');
+  });
+});
@@ -0,0 +1,134 @@
+import type { TruesignHookConfig } from './index';
+import { createMemoryRateLimitStore } from './rate-limit';
+import { createMemoryReplayStore } from './replay';
+import { isRecord } from './utils';
+
+/**
+ * Overrides of the hook config for a single route, set in the route options:
+ *
+ * ```
+ * fastify.post('/signup', { config: { truesign: { policy: strictPolicy } } }, handler);
+ * fastify.get('/health', { config: { truesign: { required: false } } }, handler);
+ * ```
+ *
+ * Any hook option can be overridden. Options that are not set keep the value of the hook config.
+ */
+export type TruesignRouteConfig<AdditionalConfig extends Record<string, unknown> = {}> =
+  & Partial<TruesignHookConfig<AdditionalConfig>>
+  & {
+    /**
+     * Shorthand for `shouldAcceptToken`.
+     */
+    policy?: TruesignHookConfig<AdditionalConfig>['shouldAcceptToken'];
+    /**
+     * `false` disables the hook for the route (`mode: 'off'`), `true` enforces it even if the hook config doesn't.
+     */
+    required?: boolean;
+  };
+
+/**
+ * The part of the Fastify route options used to find the route overrides.
+ */
+export type TruesignRouteOptions = {
+  config?: unknown;
+};
+
+/**
+ * Merges the overrides of a route into the hook config.
+ *
+ * @param config The hook config
+ * @param routeConfig The route overrides
+ * @returns The config of the route. It still has to be validated, which building the hook does.
+ * @throws Error if the overrides are contradictory
+ */
+export function mergeTruesignRouteConfig<AdditionalConfig extends Record<string, unknown>>(
+  config: TruesignHookConfig<AdditionalConfig>,
+  routeConfig: TruesignRouteConfig<AdditionalConfig>,
+): TruesignHookConfig<AdditionalConfig> {
+  if (!isRecord(routeConfig)) {
+    throw new Error('`config.truesign` must be an object');
+  }
+
+  const { policy, required, ...overrides } = routeConfig;
+  if (policy !== undefined && overrides.shouldAcceptToken !== undefined) {
+    throw new Error('`policy` and `shouldAcceptToken` can\'t be used together');
+  }
+  if (required !== undefined && (overrides.mode !== undefined || overrides.allowUnauthenticated !== undefined)) {
+    throw new Error('`required` can\'t be used together with `mode` nor `allowUnauthenticated`');
+  }
+
+  const merged: TruesignHookConfig<AdditionalConfig> = { ...config, ...overrides };
+  if (policy !== undefined) {
+    merged.shouldAcceptToken = policy;
+  }
+
+  // A route chooses its mode with one of the options, which replaces however the hook config chose it
+  const mode = required === undefined ? overrides.mode : required ? 'enforce' : 'off';
+  if (mode !== undefined) {
+    delete merged.allowUnauthenticated;
+    merged.mode = mode;
+  } else if (overrides.allowUnauthenticated !== undefined) {
+    delete merged.mode;
+  }
+
+  return merged;
+}
+
+/**
+ * Makes every route share the replay and rate limit stores of the hook config, since the memory stores would otherwise
+ * be created once per route: a token could be replayed on a different route, and each route would have its own limits.
+ */
+export function withSharedStores<AdditionalConfig extends Record<string, unknown>>(
+  config: TruesignHookConfig<AdditionalConfig>,
+): TruesignHookConfig<AdditionalConfig> {
+  const shared = { ...config };
+  if (config.replayProtection && !config.replayProtection.store) {
+    shared.replayProtection = { ...config.replayProtection, store: createMemoryReplayStore() };
+  }
+  if (config.rateLimit && !config.rateLimit.store) {
+    shared.rateLimit = { ...config.rateLimit, store: createMemoryRateLimitStore() };
+  }
+  return shared;
+}
+
+/**
+ * Builds the hooks of the routes with overrides once, and caches them by the override object.
+ *
+ * Fastify copies the route `config` into the request context, but keeps the same `truesign` object, so the hook can
+ * find what was built at registration. Invalid overrides are cached too, so they aren't built again on every request.
+ *
+ * @param config The hook config
+ * @param build Builds (and validates) a hook from a config
+ * @returns A function that returns the hook of a route config, or `null` if the route has no overrides. It throws the
+ * same error every time for invalid overrides.
+ */
+export function createRouteHookResolver<Hook, AdditionalConfig extends Record<string, unknown>>(
+  config: TruesignHookConfig<AdditionalConfig>,
+  build: (config: TruesignHookConfig<AdditionalConfig>) => Hook,
+): (routeConfig: unknown) => Hook | null {
+  const hooks = new WeakMap<object, { hook: Hook } | { error: unknown }>();
+
+  return (routeConfig) => {
+    if (!isRecord(routeConfig) || routeConfig.truesign === undefined) {
+      return null;
+    }
+
+    // Overrides that aren't objects can't be cached, but `mergeTruesignRouteConfig` rejects them right away
+    const overrides = routeConfig.truesign as TruesignRouteConfig<AdditionalConfig>;
+    let built = isRecord(overrides) ? hooks.get(overrides) : undefined;
+    if (built === undefined) {
+      try {
+        built = { hook: build(mergeTruesignRouteConfig(config, overrides)) };
+      } catch (error) {
+        built = { error };
+      }
+      if (isRecord(overrides)) {
+        hooks.set(overrides, built);
+      }
+    }
+    if ('error' in built) {
+      throw built.error;
+    }
+    return built.hook;
+  };
+}
@@ -0,0 +1,131 @@
+/// <reference types="./fastify.d.ts" />
+
+import { createMemorySessionRevocationList, getSessionManager, type TruesignSessionConfig } from './session';
+import type { MaybePromise } from './maybe-promise';
+import { humanToken } from './testing';
+
+const SECRET = 'a-session-secret-of-at-least-32-bytes';
+const OLD_SECRET = 'the-previous-session-secret-32-bytes';
+
+function makeRequest(cookie?: string, { ip = '203.0.113.10', userAgent = 'Mozilla/5.0' } = {}): FastifyRequest {
+  return { query: {}, headers: { cookie, 'user-agent': userAgent }, ip } as unknown as FastifyRequest;
+}
+
+/**
+ * The `name=value` part of a `Set-Cookie` issued without an async revocation list.
+ */
+function cookieOf(setCookie: MaybePromise<string | null>): string {
+  return (setCookie as string).split(';')[0];
+}
+
+describe('`getSessionManager`', () => {
+  let now = 1700000000000;
+  const token = humanToken({ clusterId: 7, country: 'ES' });
+  const getSessions = (config: Partial<TruesignSessionConfig> = {}) => (
+    getSessionManager({ secrets: [SECRET], ...config }, (req) => req.ip, () => now)
+  );
+
+  beforeEach(() => {
+    now = 1700000000000;
+  });
+
+  test('Issuing a cookie that carries the verdict of the token', () => {
+    const sessions = getSessions();
+    const setCookie = sessions.issue(makeRequest(), token) as string;
+
+    expect(setCookie).toMatch(/^ts-session=[\w-]+\.[\w-]+; Max-Age=900; Path=\/; HttpOnly; Secure; SameSite=Lax$/);
+    expect(sessions.read(makeRequest(cookieOf(setCookie)))).toEqual({
+      session: {
+        bot: 0,
+        anonymizer: 0,
+        clusterId: 7,
+        country: 'ES',
+        disposable: false,
+        notDeliverable: false,
+        expiresAt: now + 900000,
+      },
+      problem: null,
+    });
+    expect(sessions.read(makeRequest(`theme=dark; ${cookieOf(setCookie)}`)))
+      .toMatchObject({ session: { clusterId: 7 } });
+  });
+
+  test('Setting the cookie attributes', () => {
+    const sessions = getSessions({
+      cookieName: 'verdict',
+      ttlMs: 60000,
+      cookie: { path: '/api', domain: 'example.com', secure: false, sameSite: 'Strict' },
+    });
+
+    expect(sessions.issue(makeRequest(), token))
+      .toMatch(/^verdict=[\w-]+\.[\w-]+; Max-Age=60; Path=\/api; Domain=example\.com; HttpOnly; SameSite=Strict$/);
+  });
+
+  test('Rejecting expired, tampered and malformed cookies', () => {
+    const sessions = getSessions();
+    const cookie = cookieOf(sessions.issue(makeRequest(), token));
+    const [payload, signature] = cookie.split('=')[1].split('.');
+    const forgedSession = { bot: 0, anonymizer: 0, clusterId: 0, country: 'ES', expiresAt: now * 2 };
+    const forged = Buffer.from(JSON.stringify(forgedSession)).toString('base64');
+
+    expect(sessions.read(makeRequest())).toEqual({ session: null, problem: null });
+    expect(sessions.read(makeRequest(`ts-session=${forged}.${signature}`))).toEqual({
+      session: null,
+      problem: 'Invalid session cookie signature, or issued to another client',
+    });
+    expect(sessions.read(makeRequest(`ts-session=${payload}`)))
+      .toEqual({ session: null, problem: 'Malformed session cookie' });
+
+    now += 900000;
+    expect(sessions.read(makeRequest(cookie))).toEqual({ session: null, problem: 'The session cookie expired' });
+  });
+
+  test('Binding the cookie to the IP and user agent', () => {
+    const cookie = cookieOf(getSessions().issue(makeRequest(), token));
+    const otherClient = { session: null, problem: 'Invalid session cookie signature, or issued to another client' };
+
+    expect(getSessions().read(makeRequest(cookie, { ip: '198.51.100.7' }))).toEqual(otherClient);
+    expect(getSessions().read(makeRequest(cookie, { userAgent: 'curl/8.0' }))).toEqual(otherClient);
+    expect(getSessions({ bindIp: false }).read(makeRequest(cookie, { ip: '198.51.100.7' }))).toEqual(otherClient);
+
+    const unboundSessions = getSessions({ bindIp: false, bindUserAgent: false });
+    const unboundCookie = cookieOf(unboundSessions.issue(makeRequest(), token));
+    expect(unboundSessions.read(makeRequest(unboundCookie, { ip: '198.51.100.7', userAgent: 'curl/8.0' })))
+      .toMatchObject({ session: { clusterId: 7 } });
+  });
+
+  test('Accepting cookies signed with any of the secrets', () => {
+    const cookie = cookieOf(getSessions({ secrets: [OLD_SECRET] }).issue(makeRequest(), token));
+
+    expect(getSessions({ secrets: [SECRET, OLD_SECRET] }).read(makeRequest(cookie))).toMatchObject({ problem: null });
+    expect(getSessions({ secrets: [SECRET] }).read(makeRequest(cookie))).toMatchObject({ session: null });
+  });
+
+  test('Revoking the sessions of a cluster', async () => {
+    const revocationList = createMemorySessionRevocationList();
+    const sessions = getSessions({ revocationList });
+    const cookie = cookieOf(sessions.issue(makeRequest(), token));
+
+    revocationList.revoke(7);
+    expect(sessions.read(makeRequest(cookie)))
+      .toEqual({ session: null, problem: 'The sessions of cluster 7 were revoked' });
+    expect(sessions.issue(makeRequest(), token)).toBeNull();
+
+    revocationList.restore(7);
+    expect(sessions.read(makeRequest(cookie))).toMatchObject({ problem: null });
+
+    const isRevoked = (clusterId: number) => Promise.resolve(clusterId === 7);
+    const asyncSessions = getSessions({ revocationList: { isRevoked } });
+    await expect(asyncSessions.read(makeRequest(cookie))).resolves.toMatchObject({ session: null });
+  });
+
+  test('Not allowing invalid configs', () => {
+    expect(() => getSessions({ secrets: [] })).toThrow('`session.secrets` must contain at least one secret');
+    expect(() => getSessions({ secrets: [SECRET, 'short'] }))
+      .toThrow('Every secret in `session.secrets` must be at least 32 bytes long');
+    expect(() => getSessions({ ttlMs: 0 })).toThrow('`session.ttlMs` must be a positive number');
+    expect(() => getSessions({ cookieName: 'ts session' })).toThrow('`session.cookieName` must be a valid cookie name');
+    expect(() => getSessions({ cookie: { sameSite: 'None', secure: false } }))
+      .toThrow('`session.cookie.sameSite` can\'t be `None` unless `session.cookie.secure` is `true`');
+  });
+});
@@ -0,0 +1,282 @@
+import * as crypto from 'node:crypto';
+
+import type { DecryptedToken, TruesignRequestInput } from './index';
+import { chain, type MaybePromise } from './maybe-promise';
+import { constantTimeEqual } from './meta-binding';
+import { fromBase64Url, toBase64Url } from './utils';
+
+/**
+ * The verdict of an accepted token, which the policy, risk and rate limits of a route can check without the token.
+ * The email address itself is left out, only its checks are kept.
+ */
+export type TruesignSessionVerdict = {
+  bot: number;
+  anonymizer: number;
+  clusterId: number;
+  country: string;
+  disposable: boolean;
+  notDeliverable: boolean;
+};
+
+/**
+ * The {@link TruesignSessionVerdict} carried by the session cookie.
+ */
+export type TruesignSession = TruesignSessionVerdict & {
+  /** Unix epoch with millisecond resolution after which the cookie is no longer accepted */
+  expiresAt: number;
+};
+
+/**
+ * Clusters whose sessions must no longer be accepted, e.g. once a distributed attack is detected.
+ */
+export type SessionRevocationList = {
+  isRevoked: (clusterId: number) => MaybePromise<boolean>;
+};
+
+/**
+ * A {@link SessionRevocationList} kept in memory.
+ */
+export type MemorySessionRevocationList = SessionRevocationList & {
+  revoke: (clusterId: number) => void;
+  restore: (clusterId: number) => void;
+};
+
+export type TruesignSessionConfig = {
+  /**
+   * HMAC secrets of the cookie, at least 32 bytes long. The first one signs new cookies and every one of them is
+   * accepted, so secrets are rotated by adding the new one first and removing the old one after {@link ttlMs}.
+   */
+  secrets: string[];
+  /**
+   * How long the cookie is accepted, in milliseconds. It isn't renewed by the requests it lets through, so the client
+   * needs a new token once it expires.
+   *
+   * @default 900000 (15 minutes)
+   */
+  ttlMs?: number;
+  /**
+   * @default 'ts-session'
+   */
+  cookieName?: string;
+  /**
+   * Whether the cookie is only accepted from the IP it was issued to, resolved like `ipBinding` when it's set.
+   *
+   * @default true
+   */
+  bindIp?: boolean;
+  /**
+   * Whether the cookie is only accepted with the `User-Agent` it was issued to.
+   *
+   * @default true
+   */
+  bindUserAgent?: boolean;
+  /**
+   * Clusters whose sessions are rejected. No session is issued for them either.
+   *
+   * @default undefined (sessions are never revoked)
+   */
+  revocationList?: SessionRevocationList;
+  /**
+   * Attributes of the `Set-Cookie` header. The cookie is always `HttpOnly`.
+   *
+   * @default { path: '/', secure: true, sameSite: 'Lax' }
+   */
+  cookie?: {
+    path?: string;
+    domain?: string;
+    secure?: boolean;
+    sameSite?: 'Strict' | 'Lax' | 'None';
+  };
+};
+
+/**
+ * Result of reading the session cookie of a request. `problem` explains why a cookie was present but not accepted.
+ */
+export type SessionCheck =
+  | { session: TruesignSession; problem: null }
+  | { session: null; problem: string | null };
+
+/**
+ * The functions used by the hook to read and issue session cookies.
+ */
+export type SessionManager = {
+  read: (req: TruesignRequestInput) => MaybePromise<SessionCheck>;
+  /**
+   * Builds the `Set-Cookie` header value for an accepted token, or `null` if its cluster is revoked.
+   */
+  issue: (req: TruesignRequestInput, decryptedToken: DecryptedToken) => MaybePromise<string | null>;
+};
+
+const DEFAULT_SESSION_TTL_MS = 15 * 60 * 1000;
+const DEFAULT_SESSION_COOKIE_NAME = 'ts-session';
+const MIN_SECRET_BYTES = 32;
+const SAME_SITE_VALUES = ['Strict', 'Lax', 'None'];
+
+function getCookie(req: TruesignRequestInput, name: string): string | null {
+  const header = req.headers.cookie;
+  const cookies = (Array.isArray(header) ? header.join('; ') : header ?? '').split(';');
+  for (let i = 0; i < cookies.length; i++) {
+    const separator = cookies[i].indexOf('=');
+    if (separator !== -1 && cookies[i].substring(0, separator).trim() === name) {
+      return cookies[i].substring(separator + 1).trim();
+    }
+  }
+  return null;
+}
+
+function isSession(value: unknown): value is TruesignSession {
+  const session = value as TruesignSession;
+  return typeof value === 'object' && value !== null
+    && typeof session.bot === 'number'
+    && typeof session.anonymizer === 'number'
+    && typeof session.clusterId === 'number'
+    && typeof session.country === 'string'
+    && typeof session.disposable === 'boolean'
+    && typeof session.notDeliverable === 'boolean'
+    && typeof session.expiresAt === 'number';
+}
+
+/**
+ * Creates an in-memory {@link SessionRevocationList}.
+ *
+ * Revoking a cluster only affects the process where `revoke` is called.
+ *
+ * @returns MemorySessionRevocationList
+ */
+export function createMemorySessionRevocationList(): MemorySessionRevocationList {
+  const revoked: Record<number, true> = {};
+
+  return {
+    isRevoked: (clusterId) => revoked[clusterId] === true,
+    revoke: (clusterId) => {
+      revoked[clusterId] = true;
+    },
+    restore: (clusterId) => {
+      delete revoked[clusterId];
+    },
+  };
+}
+
+/**
+ * Builds the {@link SessionManager} of the hook.
+ *
+ * The cookie holds the base64url JSON of the {@link TruesignSession} and its HMAC-SHA256, which also covers the bound
+ * IP and user agent, so they're checked without being written in the cookie.
+ *
+ * @param config TruesignSessionConfig
+ * @param getClientIp Resolves the IP the cookie is bound to
+ * @param now Current time as Unix epoch with millisecond resolution
+ * @returns SessionManager
+ * @throws Error if the config is not valid
+ */
+export function getSessionManager(
+  config: TruesignSessionConfig,
+  getClientIp: (req: TruesignRequestInput) => string | undefined,
+  now: () => number,
+): SessionManager {
+  const {
+    secrets,
+    ttlMs = DEFAULT_SESSION_TTL_MS,
+    cookieName = DEFAULT_SESSION_COOKIE_NAME,
+    bindIp = true,
+    bindUserAgent = true,
+    revocationList,
+  } = config;
+  const { path = '/', domain, secure = true, sameSite = 'Lax' } = config.cookie ?? {};
+
+  if (!Array.isArray(secrets) || secrets.length === 0) {
+    throw new Error('`session.secrets` must contain at least one secret');
+  }
+  secrets.forEach((secret) => {
+    if (typeof secret !== 'string' || Buffer.byteLength(secret) < MIN_SECRET_BYTES) {
+      throw new Error(`Every secret in \`session.secrets\` must be at least ${MIN_SECRET_BYTES} bytes long`);
+    }
+  });
+  if (!(ttlMs > 0)) {
+    throw new Error('`session.ttlMs` must be a positive number');
+  }
+  if (!/^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/.test(cookieName)) {
+    throw new Error('`session.cookieName` must be a valid cookie name');
+  }
+  if (SAME_SITE_VALUES.indexOf(sameSite) === -1) {
+    throw new Error('`session.cookie.sameSite` must be `Strict`, `Lax` or `None`');
+  }
+  if (sameSite === 'None' && !secure) {
+    throw new Error('`session.cookie.sameSite` can\'t be `None` unless `session.cookie.secure` is `true`');
+  }
+
+  const sign = (secret: string, payload: string, req: TruesignRequestInput): string => {
+    const ip = bindIp ? getClientIp(req) ?? '' : '';
+    const userAgent = bindUserAgent ? String(req.headers['user-agent'] ?? '') : '';
+    const mac = crypto.createHmac('sha256', secret).update(JSON.stringify([payload, ip, userAgent]), 'utf8');
+    return toBase64Url(mac.digest());
+  };
+
+  const isRevoked = (clusterId: number): MaybePromise<boolean> => (
+    revocationList ? revocationList.isRevoked(clusterId) : false
+  );
+
+  const attributes = [
+    `Max-Age=${Math.floor(ttlMs / 1000)}`,
+    `Path=${path}`,
+    ...(domain ? [`Domain=${domain}`] : []),
+    'HttpOnly',
+    ...(secure ? ['Secure'] : []),
+    `SameSite=${sameSite}`,
+  ].join('; ');
+
+  return {
+    read: (req) => {
+      const cookie = getCookie(req, cookieName);
+      if (cookie === null) {
+        return { session: null, problem: null };
+      }
+
+      const [payload, signature, extra] = cookie.split('.');
+      if (!payload || !signature || extra !== undefined) {
+        return { session: null, problem: 'Malformed session cookie' };
+      }
+      // Every secret is tried so that cookies signed before a rotation stay valid
+      if (!secrets.some((secret) => constantTimeEqual(sign(secret, payload, req), signature))) {
+        return { session: null, problem: 'Invalid session cookie signature, or issued to another client' };
+      }
+
+      let session: unknown;
+      try {
+        session = JSON.parse(fromBase64Url(payload));
+      } catch (error) {
+        session = null;
+      }
+      if (!isSession(session)) {
+        return { session: null, problem: 'Malformed session cookie' };
+      }
+      if (session.expiresAt <= now()) {
+        return { session: null, problem: 'The session cookie expired' };
+      }
+
+      const validSession = session;
+      return chain(isRevoked(validSession.clusterId), (revoked): SessionCheck => (
+        revoked
+          ? { session: null, problem: `The sessions of cluster ${validSession.clusterId} were revoked` }
+          : { session: validSession, problem: null }
+      ));
+    },
+    issue: (req, decryptedToken) => chain(isRevoked(decryptedToken.clusterId), (revoked) => {
+      if (revoked) {
+        return null;
+      }
+
+      const session: TruesignSession = {
+        bot: decryptedToken.bot,
+        anonymizer: decryptedToken.anonymizer,
+        clusterId: decryptedToken.clusterId,
+        country: decryptedToken.country,
+        disposable: decryptedToken.disposable === true,
+        notDeliverable: decryptedToken.notDeliverable === true,
+        expiresAt: now() + ttlMs,
+      };
+      const payload = toBase64Url(Buffer.from(JSON.stringify(session), 'utf8'));
+      return `${cookieName}=${payload}.${sign(secrets[0], payload, req)}; ${attributes}`;
+    }),
+  };
+}
@@ -0,0 +1,67 @@
+/// <reference types="./fastify.d.ts" />
+
+import { createTruesignPolicy, decryptTruesignTokenDetailed, getTruesignHook } from './index';
+import {
+  botToken,
+  createTruesignToken,
+  disposableEmailToken,
+  humanToken,
+  mockTruesignReply,
+  mockTruesignRequest,
+  vpnToken,
+} from './testing';
+
+const encryptionKey = '0123456789abcdef0123456789abcdef';
+
+describe('`createTruesignToken`', () => {
+  test('Creating tokens that the hook decrypts', () => {
+    const payload = humanToken({ country: 'ES' });
+    const token = createTruesignToken(encryptionKey, payload, { iv: 'abcdefghijklmnop' });
+
+    expect(token.substring(0, 16)).toBe('abcdefghijklmnop');
+    expect(decryptTruesignTokenDetailed(encryptionKey, token)).toEqual({ ok: true, token: payload, keyId: null });
+  });
+
+  test('Using a random IV by default', () => {
+    const payload = humanToken();
+    expect(createTruesignToken(encryptionKey, payload)).not.toBe(createTruesignToken(encryptionKey, payload));
+  });
+
+  test('Not allowing IVs of the wrong length', () => {
+    expect(() => createTruesignToken(encryptionKey, humanToken(), { iv: 'short' }))
+      .toThrow('`iv` must be 16 ASCII characters long');
+  });
+});
+
+describe('Payload factories', () => {
+  test('Creating valid payloads', () => {
+    [humanToken(), botToken(), vpnToken(), disposableEmailToken(), humanToken({ ipv6: '2001:db8::1' })]
+      .forEach((payload) => {
+        const result = decryptTruesignTokenDetailed(encryptionKey, createTruesignToken(encryptionKey, payload));
+        expect(result.ok).toBe(true);
+      });
+  });
+
+  test('Setting the scores of each kind of visitor', () => {
+    expect(botToken()).toMatchObject({ bot: 9, anonymizer: 0 });
+    expect(vpnToken()).toMatchObject({ bot: 0, anonymizer: 9 });
+    expect(disposableEmailToken()).toMatchObject({ disposable: true, notDeliverable: false });
+    expect(humanToken({ ipv6: '2001:db8::1' })).not.toHaveProperty('ipv4');
+  });
+});
+
+describe('Mock request and reply', () => {
+  test('Running the hook end to end', () => {
+    const hook = getTruesignHook({ encryptionKey, shouldAcceptToken: createTruesignPolicy({ maxBot: 5 }) });
+    const mockNext = jest.fn();
+
+    const humanRequest = mockTruesignRequest({ token: createTruesignToken(encryptionKey, humanToken()) });
+    hook(humanRequest, mockTruesignReply(), mockNext);
+    expect(mockNext).toBeCalledTimes(1);
+
+    const reply = mockTruesignReply();
+    hook(mockTruesignRequest({ token: createTruesignToken(encryptionKey, botToken()) }), reply, mockNext);
+    expect(mockNext).toBeCalledTimes(1);
+    expect(reply).toMatchObject({ statusCode: 401, sent: true, payload: undefined });
+  });
+});
@@ -0,0 +1,180 @@
+import * as crypto from 'node:crypto';
+
+import { type EncryptionKeyEncoding, parseEncryptionKey } from './encryption-key';
+import type { DecryptedToken, TruesignReply, TruesignRequestInput } from './index';
+import { IV_LENGTH } from './utils';
+
+/**
+ * Helpers to test code that relies on Truesign tokens against the real decryption, instead of mocking
+ * `decryptFunction`. They're not exported from the main entry point:
+ *
+ * ```
+ * import { createTruesignToken, humanToken } from 'truesign-fastify-hook/dist/testing';
+ * ```
+ */
+
+export type CreateTruesignTokenOptions = {
+  /**
+   * The 16-character IV prepended to the token.
+   *
+   * @default A random one
+   */
+  iv?: string;
+  /**
+   * Encoding of the encryption key.
+   *
+   * @default 'raw'
+   */
+  encoding?: EncryptionKeyEncoding;
+};
+
+/**
+ * Encrypts a payload into a token with the same format as the ones created by Truesign: the IV followed by the
+ * base64 AES-256-CBC ciphertext of the JSON payload.
+ *
+ * The payload isn't validated, so invalid tokens can be created on purpose.
+ *
+ * @param encryptionKey The key, as used by the hook
+ * @param payload Usually a {@link DecryptedToken} made with the factories in this module
+ * @param options CreateTruesignTokenOptions
+ * @returns The token
+ * @throws Error if the IV or the key don't have the expected length
+ */
+export function createTruesignToken(
+  encryptionKey: string,
+  payload: DecryptedToken | Record<string, unknown>,
+  options: CreateTruesignTokenOptions = {},
+): string {
+  // 12 random bytes are exactly 16 base64 characters
+  const iv = options.iv ?? crypto.randomBytes(12).toString('base64');
+  if (iv.length !== IV_LENGTH || Buffer.byteLength(iv) !== IV_LENGTH) {
+    throw new Error('`iv` must be 16 ASCII characters long');
+  }
+
+  const cipher = crypto.createCipheriv('aes-256-cbc', parseEncryptionKey(encryptionKey, options.encoding), iv);
+  return iv + cipher.update(JSON.stringify(payload), 'utf8', 'base64') + cipher.final('base64');
+}
+
+/**
+ * Fields to change in the tokens created by the factories. Setting `ipv6` removes the default `ipv4`.
+ */
+export type TruesignTokenOverrides = Partial<DecryptedToken>;
+
+function makeToken(defaults: Record<string, unknown>, overrides: TruesignTokenOverrides): DecryptedToken {
+  const token: Record<string, unknown> = {
+    bot: 0,
+    anonymizer: 0,
+    clusterId: 0,
+    requestId: crypto.randomBytes(6).readUIntBE(0, 6),
+    timestamp: Date.now(),
+    country: 'US',
+    ipv4: '203.0.113.10',
+    ...defaults,
+    ...overrides,
+  };
+  if ('ipv6' in overrides) {
+    delete token.ipv4;
+  }
+  return token as DecryptedToken;
+}
+
+/**
+ * A token of a human visitor, without IP anonymizers. The `requestId` is random and the `timestamp` is now.
+ */
+export function humanToken(overrides: TruesignTokenOverrides = {}): DecryptedToken {
+  return makeToken({}, overrides);
+}
+
+/**
+ * A token of a visitor that is definitely a bot (`bot: 9`).
+ */
+export function botToken(overrides: TruesignTokenOverrides = {}): DecryptedToken {
+  return makeToken({ bot: 9 }, overrides);
+}
+
+/**
+ * A token of a human visitor that is definitely behind a VPN, proxy or Tor (`anonymizer: 9`).
+ */
+export function vpnToken(overrides: TruesignTokenOverrides = {}): DecryptedToken {
+  return makeToken({ anonymizer: 9 }, overrides);
+}
+
+/**
+ * A token of a human visitor whose verified email is disposable.
+ */
+export function disposableEmailToken(overrides: TruesignTokenOverrides = {}): DecryptedToken {
+  return makeToken({ email: 'jane@mailinator.com', disposable: true, notDeliverable: false, typo: null }, overrides);
+}
+
+export type MockRequestOptions = {
+  /**
+   * Sent in the `ts-token` query param, where the hook looks for it by default.
+   */
+  token?: string;
+  query?: Record<string, unknown>;
+  headers?: TruesignRequestInput['headers'];
+  body?: unknown;
+  /**
+   * @default '203.0.113.10', the IP of the tokens created by the factories
+   */
+  ip?: string;
+};
+
+/**
+ * Builds the minimal request the hook needs.
+ *
+ * @param options MockRequestOptions
+ * @returns TruesignRequestInput
+ */
+export function mockTruesignRequest(options: MockRequestOptions = {}): TruesignRequestInput {
+  const { token, query = {}, headers = {}, body, ip = '203.0.113.10' } = options;
+
+  return {
+    query: token === undefined ? query : { ...query, 'ts-token': token },
+    headers,
+    body,
+    ip,
+  };
+}
+
+/**
+ * A reply that records what the hook sends, for assertions.
+ */
+export type MockReply = TruesignReply & {
+  /** `null` until `code` is called */
+  statusCode: number | null;
+  /** Headers set with `header`, with lowercase names */
+  headers: Record<string, string>;
+  /** Whether `send` was called */
+  sent: boolean;
+  /** The body passed to `send` */
+  payload: unknown;
+};
+
+/**
+ * Builds a reply that records the status code, headers and body sent by the hook.
+ *
+ * @returns MockReply
+ */
+export function mockTruesignReply(): MockReply {
+  const reply: MockReply = {
+    statusCode: null,
+    headers: {},
+    sent: false,
+    payload: undefined,
+    code: (statusCode) => {
+      reply.statusCode = statusCode;
+      return reply;
+    },
+    header: (name, value) => {
+      reply.headers[name.toLowerCase()] = value;
+      return reply;
+    },
+    send: (body) => {
+      reply.sent = true;
+      reply.payload = body;
+    },
+  };
+
+  return reply;
+}
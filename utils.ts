@@ -0,0 +1,35 @@
+/**
+ * Small helpers shared by the modules of the hook. They're not exported from the main entry point.
+ */
+
+/**
+ * Length of the IV that prefixes every token. For AES-256-CBC, this is always 16.
+ */
+export const IV_LENGTH = 16;
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Encodes bytes as unpadded base64url, which is safe in cookies, query strings and headers.
+ *
+ * @param buffer Buffer
+ * @returns string
+ */
+export function toBase64Url(buffer: Buffer): string {
+  return buffer.toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decodes a base64url string, padded or not, as UTF-8.
+ *
+ * @param text string
+ * @returns string
+ */
+export function fromBase64Url(text: string): string {
+  return Buffer.from(text.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8');
+}
@@ -0,0 +1,86 @@
+import { validateDecryptedToken } from './validation';
+
+const validPayload = {
+  bot: 0,
+  anonymizer: 7,
+  clusterId: 0,
+  requestId: 123456789,
+  timestamp: 1700000000000,
+  country: 'ES',
+  ipv4: '203.0.113.7',
+};
+
+function expectInvalid(payload: unknown, reason: string): void {
+  expect(validateDecryptedToken(payload)).toEqual({ valid: false, reason });
+}
+
+describe('`validateDecryptedToken`', () => {
+  test('Accepting a minimal payload', () => {
+    expect(validateDecryptedToken(validPayload)).toEqual({ valid: true, token: validPayload });
+  });
+
+  test('Accepting a payload with IPv6, meta and email', () => {
+    const payload = {
+      ...validPayload,
+      ipv4: undefined,
+      ipv6: '2001:0db8:0000:0000:0000:0000:0000:0001',
+      meta: 'csrf-token',
+      email: 'foo@gmai.com',
+      disposable: false,
+      notDeliverable: true,
+      typo: 'gmail.com',
+    };
+    expect(validateDecryptedToken(payload).valid).toBe(true);
+  });
+
+  test('Tolerating `typo: null`', () => {
+    const withEmail = { ...validPayload, email: 'foo@gmail.com', disposable: false, notDeliverable: false, typo: null };
+    expect(validateDecryptedToken(withEmail).valid).toBe(true);
+    expect(validateDecryptedToken({ ...validPayload, typo: null }).valid).toBe(true);
+  });
+
+  test('Rejecting non-object payloads', () => {
+    expectInvalid(null, 'Payload must be an object');
+    expectInvalid([validPayload], 'Payload must be an object');
+    expectInvalid('{}', 'Payload must be an object');
+  });
+
+  test('Rejecting out of range scores', () => {
+    expectInvalid({ ...validPayload, bot: 10 }, '`bot` must be an integer between 0 and 9');
+    expectInvalid({ ...validPayload, bot: '0' }, '`bot` must be an integer between 0 and 9');
+    expectInvalid({ ...validPayload, anonymizer: -1 }, '`anonymizer` must be an integer between 0 and 9');
+    expectInvalid({ ...validPayload, anonymizer: 1.5 }, '`anonymizer` must be an integer between 0 and 9');
+  });
+
+  test('Rejecting invalid identifiers', () => {
+    expectInvalid({ ...validPayload, clusterId: undefined }, '`clusterId` must be an integer between 0 and 2^53');
+    expectInvalid({ ...validPayload, requestId: '1' }, '`requestId` must be an integer between 0 and 2^53');
+    expectInvalid({ ...validPayload, timestamp: '1700000000000' }, '`timestamp` must be a Unix epoch in milliseconds');
+    expectInvalid({ ...validPayload, country: '' }, '`country` must be a non-empty string');
+  });
+
+  test('Rejecting `meta` longer than 80 characters', () => {
+    expect(validateDecryptedToken({ ...validPayload, meta: 'a'.repeat(80) }).valid).toBe(true);
+    expectInvalid({ ...validPayload, meta: 'a'.repeat(81) }, '`meta` must be at most 80 characters');
+    expectInvalid({ ...validPayload, meta: 1 }, '`meta` must be a string');
+  });
+
+  test('Rejecting a partial email group', () => {
+    expectInvalid(
+      { ...validPayload, email: 'foo@gmail.com', disposable: false },
+      '`email`, `disposable` and `notDeliverable` must be present together',
+    );
+    expectInvalid(
+      { ...validPayload, email: 'foo@gmail.com', disposable: 'no', notDeliverable: false },
+      '`disposable` must be a boolean',
+    );
+    expectInvalid({ ...validPayload, typo: 'gmail.com' }, '`typo` can only be present along with `email`');
+  });
+
+  test('Requiring exactly one IP field', () => {
+    expectInvalid({ ...validPayload, ipv4: undefined }, 'Exactly one of `ipv4` or `ipv6` must be present');
+    expectInvalid({ ...validPayload, ipv6: '::1' }, 'Exactly one of `ipv4` or `ipv6` must be present');
+    expectInvalid({ ...validPayload, ipv4: '300.0.0.1' }, '`ipv4` must be a valid IPv4 address');
+    expectInvalid({ ...validPayload, ipv4: undefined, ipv6: 'nope' }, '`ipv6` must be a valid IPv6 address');
+  });
+});
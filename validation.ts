@@ -0,0 +1,115 @@
+import * as net from 'node:net';
+
+import type { DecryptedToken } from './index';
+import { isRecord } from './utils';
+
+export type TokenValidationResult =
+  | { valid: true; token: DecryptedToken }
+  | { valid: false; reason: string };
+
+const META_MAX_LENGTH = 80;
+const MAX_IDENTIFIER = Math.pow(2, 53);
+
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Math.floor(value) === value && value >= min && value <= max;
+}
+
+function validateBase(payload: Record<string, unknown>): string | null {
+  if (!isIntegerInRange(payload.bot, 0, 9)) {
+    return '`bot` must be an integer between 0 and 9';
+  }
+  if (!isIntegerInRange(payload.anonymizer, 0, 9)) {
+    return '`anonymizer` must be an integer between 0 and 9';
+  }
+  if (!isIntegerInRange(payload.clusterId, 0, MAX_IDENTIFIER)) {
+    return '`clusterId` must be an integer between 0 and 2^53';
+  }
+  if (!isIntegerInRange(payload.requestId, 0, MAX_IDENTIFIER)) {
+    return '`requestId` must be an integer between 0 and 2^53';
+  }
+  if (!isIntegerInRange(payload.timestamp, 0, Number.MAX_SAFE_INTEGER)) {
+    return '`timestamp` must be a Unix epoch in milliseconds';
+  }
+  if (typeof payload.country !== 'string' || !payload.country) {
+    return '`country` must be a non-empty string';
+  }
+  if (payload.meta !== undefined) {
+    if (typeof payload.meta !== 'string') {
+      return '`meta` must be a string';
+    }
+    if (payload.meta.length > META_MAX_LENGTH) {
+      return `\`meta\` must be at most ${META_MAX_LENGTH} characters`;
+    }
+  }
+  return null;
+}
+
+function validateEmail(payload: Record<string, unknown>): string | null {
+  const hasEmail = payload.email !== undefined;
+  const hasDisposable = payload.disposable !== undefined;
+  const hasNotDeliverable = payload.notDeliverable !== undefined;
+
+  if (!hasEmail && !hasDisposable && !hasNotDeliverable) {
+    // `typo: null` is tolerated on its own since Truesign sends it when there's nothing to report
+    if (payload.typo !== undefined && payload.typo !== null) {
+      return '`typo` can only be present along with `email`';
+    }
+    return null;
+  }
+
+  if (!hasEmail || !hasDisposable || !hasNotDeliverable) {
+    return '`email`, `disposable` and `notDeliverable` must be present together';
+  }
+  if (typeof payload.email !== 'string' || !payload.email) {
+    return '`email` must be a non-empty string';
+  }
+  if (typeof payload.disposable !== 'boolean') {
+    return '`disposable` must be a boolean';
+  }
+  if (typeof payload.notDeliverable !== 'boolean') {
+    return '`notDeliverable` must be a boolean';
+  }
+  // Officially `typo` is either absent or a string, but in practice it's `null` when there is no typo
+  if (payload.typo !== undefined && payload.typo !== null && typeof payload.typo !== 'string') {
+    return '`typo` must be a string or null';
+  }
+  return null;
+}
+
+function validateIp(payload: Record<string, unknown>): string | null {
+  const hasIpv4 = payload.ipv4 !== undefined;
+  const hasIpv6 = payload.ipv6 !== undefined;
+
+  if (hasIpv4 === hasIpv6) {
+    return 'Exactly one of `ipv4` or `ipv6` must be present';
+  }
+  if (hasIpv4 && (typeof payload.ipv4 !== 'string' || !net.isIPv4(payload.ipv4))) {
+    return '`ipv4` must be a valid IPv4 address';
+  }
+  if (hasIpv6 && (typeof payload.ipv6 !== 'string' || !net.isIPv6(payload.ipv6))) {
+    return '`ipv6` must be a valid IPv6 address';
+  }
+  return null;
+}
+
+/**
+ * Checks that a decrypted payload matches the documented {@link DecryptedToken} shape.
+ *
+ * Truesign payloads can't be forged without the encryption key, but validating them protects route handlers from
+ * crashing on unexpected shapes (e.g. after an API change on Truesign's side).
+ *
+ * @param payload The parsed JSON payload of a token
+ * @returns The typed token, or the reason why it's not valid
+ */
+export function validateDecryptedToken(payload: unknown): TokenValidationResult {
+  if (!isRecord(payload)) {
+    return { valid: false, reason: 'Payload must be an object' };
+  }
+
+  const reason = validateBase(payload) ?? validateEmail(payload) ?? validateIp(payload);
+  if (reason !== null) {
+    return { valid: false, reason };
+  }
+
+  return { valid: true, token: payload as DecryptedToken };
+}